@@ -0,0 +1,583 @@
+// Page adapters: one per Trailhead page layout. Each recognizes its layout
+// and reads the unit content, reads and answers the quiz and reads the
+// graded result, using only the selector fallbacks that fit the layout.
+//
+// Module units share the quiz implementation below and differ in selectors
+// and in how options are clicked. Superbadges and project steps are graded
+// by hands-on challenges, so they read the challenge requirements as part
+// of their content and don't look for a quiz where there is none.
+
+import type { ElementHandle, Page } from "puppeteer";
+import { auditClick, auditSelectedOptions } from "./audit.js";
+import { readHandsOnChallenge } from "./challenge.js";
+import { ToolError } from "./errors.js";
+import { unitContentToMarkdown, type UnitMarkdown } from "./markdown.js";
+import {
+  detectQuestionType,
+  type QuestionResult,
+  type QuizAnswers,
+  type QuizQuestion,
+  type QuizResult,
+} from "./quiz.js";
+import { isOverridden, queryAll, queryFirst, selectorsFor, type LogicalElement } from "./selectors.js";
+import { parseTrailheadUrl } from "./urls.js";
+import { waitUntilReady, type WaitReport } from "./waits.js";
+
+export type AdapterName = "legacy-unit" | "enhanced-quiz" | "project-step" | "superbadge";
+
+export interface AdapterDetection {
+  adapter: AdapterName;
+  matched: boolean;
+  // What was checked, and what was found, to decide `matched`
+  reasons: string[];
+}
+
+export interface ExtractedQuiz {
+  questions: QuizQuestion[];
+  // The waits for the challenge and the quiz to render
+  waits: WaitReport[];
+}
+
+export interface SelectionOutcome {
+  // Option IDs with no matching input on the page
+  missingOptionIds: string[];
+  failures: string[];
+}
+
+export interface TrailheadPageAdapter {
+  name: AdapterName;
+  description: string;
+  // Whether the layout's steps are usually graded by a hands-on challenge check
+  handsOn: boolean;
+  // The selector fallbacks of a logical element on this layout
+  selectorsFor(element: LogicalElement): string[];
+  // `expandChallenge` opens the challenge, for layouts recognized by quiz
+  // markup that is only rendered once it is open
+  detect(page: Page, expandChallenge: () => Promise<void>): Promise<AdapterDetection>;
+  readContent(page: Page): Promise<UnitMarkdown>;
+  extractQuiz(page: Page): Promise<ExtractedQuiz>;
+  selectAnswers(page: Page, questions: QuizQuestion[], answers: QuizAnswers): Promise<SelectionOutcome>;
+  readSelectedAnswers(page: Page, questions: QuizQuestion[]): Promise<QuizAnswers>;
+  // Returns the selector of the submit button that was clicked, or null
+  submit(page: Page): Promise<string | null>;
+  // `attempt` is used when the page doesn't show the attempt number
+  readResult(page: Page, questions: QuizQuestion[], attempt: number): Promise<QuizResult>;
+}
+
+type Selectors = (element: LogicalElement) => string[];
+
+// Quiz markup of the enhanced layout, as named in the built-in selector profile
+const ENHANCED_QUIZ_SELECTORS: Partial<Record<LogicalElement, string[]>> = {
+  quizContainer: ["div#challenge .th-enhanced-quiz"],
+  question: ["article >>> div#challenge fieldset.th-quiz__question"],
+  questionText: [".th-quiz__question-text"],
+  option: [".slds-radio_button", ".slds-checkbox"],
+  optionText: [".th-quiz__item-text", ".slds-form-element__label"],
+};
+
+// Quiz markup of the legacy layout
+const LEGACY_QUIZ_SELECTORS: Partial<Record<LogicalElement, string[]>> = {
+  question: ["article >>> div#challenge .question"],
+  questionText: [".question-label"],
+  option: [".option"],
+  optionText: [".option-text"],
+};
+
+/**
+ * The profile's fallbacks without the given selectors of another layout.
+ * Elements the profile file overrides keep every selector it lists, built-in
+ * ones included, and an element keeps all its fallbacks if excluding would
+ * leave none.
+ */
+function excluding(excluded: Partial<Record<LogicalElement, string[]>>): Selectors {
+  return (element) => {
+    const all = selectorsFor(element);
+    if (isOverridden(element)) {
+      return all;
+    }
+    const kept = all.filter((selector) => !excluded[element]?.includes(selector));
+    return kept.length > 0 ? kept : all;
+  };
+}
+
+async function readContent(page: Page, selectors: Selectors): Promise<UnitMarkdown> {
+  const contentEl = await queryFirst(page, "unitContent", selectors("unitContent"));
+  if (!contentEl) {
+    throw new ToolError("CONTENT_NOT_FOUND", "Could not find the unit content");
+  }
+  return await contentEl.evaluate(unitContentToMarkdown);
+}
+
+const CHALLENGE_REQUIREMENTS_HEADING = "Challenge Requirements";
+
+// The step's instructions, when it has any, followed by its hands-on
+// challenge requirements as a checklist
+async function readHandsOnContent(page: Page, selectors: Selectors): Promise<UnitMarkdown> {
+  const contentEl = await queryFirst(page, "unitContent", selectors("unitContent"));
+  const content = contentEl ? await contentEl.evaluate(unitContentToMarkdown) : { markdown: "", outline: [] };
+  const { requirements } = await readHandsOnChallenge(page);
+  if (requirements.length === 0) {
+    if (!contentEl) {
+      throw new ToolError("CONTENT_NOT_FOUND", "Could not find the step's instructions or challenge requirements");
+    }
+    return content;
+  }
+  return {
+    markdown: [
+      content.markdown,
+      `## ${CHALLENGE_REQUIREMENTS_HEADING}`,
+      requirements.map((requirement) => `- [ ] ${requirement.text}`).join("\n"),
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    outline: [...content.outline, { level: 2, text: CHALLENGE_REQUIREMENTS_HEADING, anchor: null }],
+  };
+}
+
+/**
+ * Waits for the challenge and clicks it open, unless questions are already
+ * showing: clicking an open challenge can collapse it again.
+ */
+async function expandChallenge(page: Page, selectors: Selectors): Promise<WaitReport[]> {
+  const waits = await waitUntilReady(page, "challenge");
+  const challengeDiv = await queryFirst(page, "challenge", selectors("challenge"));
+  if (challengeDiv && !(await queryFirst(page, "question", selectors("question")))) {
+    await challengeDiv.click();
+    auditClick("challenge");
+    // Wait for the quiz to be visible and done rendering
+    waits.push(...(await waitUntilReady(page, "quiz")));
+  }
+  return waits;
+}
+
+async function extractQuiz(page: Page, selectors: Selectors): Promise<ExtractedQuiz> {
+  const first = (root: Page | ElementHandle<Element>, element: LogicalElement) =>
+    queryFirst(root, element, selectors(element));
+  const all = (root: Page | ElementHandle<Element>, element: LogicalElement) =>
+    queryAll(root, element, selectors(element));
+
+  const waits = await expandChallenge(page, selectors);
+
+  // Find questions using the first selector that works for this quiz layout
+  const questionEls = await all(page, "question");
+
+  const questions = await Promise.all(
+    questionEls.map(async (questionEl, questionIndex) => {
+      const questionTextEl = await first(questionEl, "questionText");
+      const questionText = questionTextEl
+        ? await questionTextEl.evaluate((e) => e.textContent?.trim())
+        : `Question ${questionIndex + 1}`;
+
+      const optionEls = await all(questionEl, "option");
+
+      const options = await Promise.all(
+        optionEls.map(async (optionEl, optionIndex) => {
+          const optionTextEl = await first(optionEl, "optionText");
+          const optionText =
+            (optionTextEl && (await optionTextEl.evaluate((e) => e.textContent?.trim()))) || "";
+          const inputEl = await first(optionEl, "optionInput");
+          const input = inputEl
+            ? await inputEl.evaluate((e) => ({ id: e.id, type: (e as HTMLInputElement).type }))
+            : { id: "", type: "" };
+
+          return {
+            id: input.id || `q${questionIndex}_o${optionIndex}`,
+            inputType: input.type as string,
+            text: optionText,
+            index: optionIndex,
+          };
+        }),
+      );
+
+      // Prefer an ID from the markup; the radio/checkbox group name is
+      // shared by every option of a question and survives re-renders
+      const questionId: string = await questionEl.evaluate(
+        (e: any, index: number) =>
+          e.id ||
+          e.getAttribute("data-question-id") ||
+          e.getAttribute("data-id") ||
+          e.querySelector("input[name]")?.getAttribute("name") ||
+          `question-${index + 1}`,
+        questionIndex,
+      );
+
+      const text = questionText || `Question ${questionIndex + 1}`;
+      return {
+        id: questionId,
+        text,
+        ...detectQuestionType(
+          text,
+          options.map((o) => o.inputType),
+          options.map((o) => o.text),
+        ),
+        options: options.map(({ id, text, index }) => ({ id, text, index })),
+      };
+    }),
+  );
+  return { questions, waits };
+}
+
+// Brings each answered question's inputs to the requested state. Radio
+// buttons only need the chosen option clicked; checkboxes toggle, so they
+// are clicked only when their checked state is wrong. With `viaLabel` the
+// input's label is clicked, as a user would click an SLDS radio or checkbox
+// whose input is visually hidden.
+async function selectAnswers(
+  page: Page,
+  questions: QuizQuestion[],
+  answers: QuizAnswers,
+  viaLabel = false,
+): Promise<SelectionOutcome> {
+  const outcome: SelectionOutcome = { missingOptionIds: [], failures: [] };
+
+  for (const question of questions) {
+    const selected = answers[question.id];
+    if (!selected) continue;
+
+    for (const option of question.options) {
+      const shouldCheck = selected.includes(option.id);
+      if (!shouldCheck && question.type !== "multiple") continue;
+
+      try {
+        const state = await page.evaluate((id: string, checked: boolean, viaLabel: boolean) => {
+          const input = document.getElementById(id) as HTMLInputElement | null;
+          if (!input) {
+            return "missing";
+          }
+          if (input.checked !== checked) {
+            const label = viaLabel ? input.labels?.[0] : null;
+            (label ?? input).click();
+            // A label that doesn't toggle its input is bypassed
+            if (label && input.checked !== checked) {
+              input.click();
+            }
+            return "clicked";
+          }
+          return "unchanged";
+        }, option.id, shouldCheck, viaLabel);
+
+        if (state === "clicked") {
+          auditClick(`option ${option.id}`);
+        }
+        if (state === "missing") {
+          outcome.missingOptionIds.push(option.id);
+        } else if (shouldCheck) {
+          auditSelectedOptions([option.id]);
+          console.error(`Selected answer with ID ${option.id}`);
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.error(`Error selecting option ${option.id}:`, error);
+        outcome.failures.push(`Failed to select option ${option.id}: ${errorMessage}`);
+      }
+    }
+  }
+
+  return outcome;
+}
+
+// Reads which options are currently checked, keyed by question ID
+async function readSelectedAnswers(page: Page, questions: QuizQuestion[]): Promise<QuizAnswers> {
+  const optionIds = questions.flatMap((q) => q.options.map((o) => o.id));
+  const checked = await page.evaluate(
+    (ids: string[]) =>
+      ids.filter((id) => (document.getElementById(id) as HTMLInputElement | null)?.checked),
+    optionIds,
+  );
+
+  const selected: QuizAnswers = {};
+  for (const question of questions) {
+    selected[question.id] = question.options
+      .filter((o) => checked.includes(o.id))
+      .map((o) => o.id);
+  }
+  return selected;
+}
+
+async function submit(page: Page, selectors: Selectors): Promise<string | null> {
+  // Submit the quiz - try each submit button selector in the profile's order
+  for (const selector of selectors("submitButton")) {
+    try {
+      const submitButtonExists = await page.$(selector);
+
+      if (submitButtonExists && await submitButtonExists.evaluate((el) => {
+        const button = el as HTMLButtonElement | HTMLInputElement;
+        return !button.disabled; // Only proceed if button is enabled (not disabled)
+      })) {
+        await page.click(selector);
+        auditClick(`submit button (${selector})`);
+        console.error(`Submitted quiz with selector: ${selector}`);
+        return selector;
+      }
+    } catch (error) {
+      console.error(
+        `Error with submit button selector ${selector}:`,
+        error,
+      );
+    }
+  }
+
+  return null;
+}
+
+// Reads Trailhead's post-submit state: the completion banner, which
+// questions are marked wrong, their feedback text, points and attempt.
+async function readResult(
+  page: Page,
+  questions: QuizQuestion[],
+  fallbackAttempt: number,
+  selectors: Selectors,
+): Promise<QuizResult> {
+  const questionEls = await queryAll(page, "question", selectors("question"));
+  const feedbackSelector = selectors("questionFeedback").join(", ");
+
+  const questionResults: QuestionResult[] = await Promise.all(
+    questionEls.map(async (questionEl, index) => {
+      const state = await questionEl.evaluate((el, feedbackSelector) => {
+        const classNames = [el, ...Array.from(el.querySelectorAll("*"))]
+          .map((node) => (typeof node.className === "string" ? node.className : ""))
+          .join(" ")
+          .toLowerCase();
+        const incorrect =
+          /(^|[\s_-])(incorrect|wrong|has-error)\b/.test(classNames) ||
+          el.getAttribute("aria-invalid") === "true" ||
+          !!el.querySelector('[aria-invalid="true"]');
+        const correct = !incorrect && /(^|[\s_-])correct\b/.test(classNames);
+        const feedbackEl = el.querySelector(feedbackSelector);
+        return {
+          correct: incorrect ? false : correct ? true : null,
+          feedback: feedbackEl?.textContent?.trim() || null,
+        };
+      }, feedbackSelector);
+
+      return {
+        questionId: questions[index]?.id ?? `question-${index + 1}`,
+        index,
+        ...state,
+      };
+    }),
+  );
+
+  const completeEl = await queryFirst(page, "quizComplete", selectors("quizComplete"));
+  const completeText = completeEl
+    ? await completeEl.evaluate((el) => (el as HTMLElement).innerText?.trim() || el.textContent?.trim() || "")
+    : "";
+  const challengeEl = await queryFirst(page, "challenge", selectors("challenge"));
+  const challengeText = challengeEl
+    ? await challengeEl.evaluate((el) => (el as HTMLElement).innerText || el.textContent || "")
+    : "";
+
+  const points = (completeText || challengeText).match(/\+?\s*([\d,]+)\s*(?:points|pts)\b/i)?.[1];
+  const badge = completeText.match(/(?:earned|unlocked)\s+(?:the\s+|a\s+)?(.+?)\s+badge/i)?.[1] ?? null;
+  const attempt = challengeText.match(/attempt\s*(?:#|no\.?)?\s*(\d+)/i)?.[1];
+
+  const incorrectQuestionIds = questionResults
+    .filter((q) => q.correct === false)
+    .map((q) => q.questionId);
+
+  return {
+    status: completeEl ? "passed" : incorrectQuestionIds.length > 0 ? "failed" : "unknown",
+    attempt: attempt ? Number(attempt) : fallbackAttempt,
+    pointsEarned: points ? Number(points.replace(/,/g, "")) : null,
+    badge,
+    message: completeText || null,
+    questions: questionResults,
+    incorrectQuestionIds,
+  };
+}
+
+// Which of a layout's quiz container and question selectors match on the
+// page. Option selectors are left out: SLDS inputs appear outside quizzes.
+async function findQuizMarkup(page: Page, layout: Partial<Record<LogicalElement, string[]>>): Promise<string[]> {
+  const found: string[] = [];
+  for (const selector of [...(layout.quizContainer ?? []), ...(layout.question ?? [])]) {
+    if (await page.$(selector).catch(() => null)) {
+      found.push(selector);
+    }
+  }
+  return found;
+}
+
+type AdapterBehavior = Pick<
+  TrailheadPageAdapter,
+  "readContent" | "extractQuiz" | "selectAnswers" | "readSelectedAnswers" | "submit" | "readResult"
+>;
+
+// An adapter with the module unit behavior, except for what `overrides` replaces
+function createAdapter(
+  name: AdapterName,
+  description: string,
+  handsOn: boolean,
+  selectors: Selectors,
+  detect: (page: Page, expandChallenge: () => Promise<void>) => Promise<{ matched: boolean; reasons: string[] }>,
+  overrides: Partial<AdapterBehavior> = {},
+): TrailheadPageAdapter {
+  return {
+    name,
+    description,
+    handsOn,
+    selectorsFor: selectors,
+    detect: async (page, expand) => ({ adapter: name, ...(await detect(page, expand)) }),
+    readContent: (page) => readContent(page, selectors),
+    extractQuiz: (page) => extractQuiz(page, selectors),
+    selectAnswers: (page, questions, answers) => selectAnswers(page, questions, answers),
+    readSelectedAnswers,
+    submit: (page) => submit(page, selectors),
+    readResult: (page, questions, attempt) => readResult(page, questions, attempt, selectors),
+    ...overrides,
+  };
+}
+
+const noSuperbadgeQuiz = (): never => {
+  throw new ToolError("QUIZ_NOT_FOUND", "Superbadges have no quiz. Use check-hands-on-challenge to check each step.");
+};
+
+const superbadge = createAdapter(
+  "superbadge",
+  "A superbadge step: hands-on challenges checked against a connected org, with no quiz",
+  true,
+  selectorsFor,
+  async (page) => {
+    const kind = parseTrailheadUrl(page.url())?.kind;
+    return kind === "superbadges"
+      ? { matched: true, reasons: ["URL is a superbadge page (/content/learn/superbadges/)"] }
+      : { matched: false, reasons: ["URL is not under /content/learn/superbadges/"] };
+  },
+  {
+    readContent: (page) => readHandsOnContent(page, selectorsFor),
+    // Superbadge challenges are not quizzes; don't open or scrape them as one
+    extractQuiz: async () => ({ questions: [], waits: [] }),
+    selectAnswers: noSuperbadgeQuiz,
+    readSelectedAnswers: noSuperbadgeQuiz,
+    submit: noSuperbadgeQuiz,
+  },
+);
+
+const projectStep = createAdapter(
+  "project-step",
+  "A project step: hands-on instructions with a challenge check, sometimes a quiz",
+  true,
+  selectorsFor,
+  async (page) => {
+    const location = parseTrailheadUrl(page.url());
+    if (location?.kind !== "projects") {
+      return { matched: false, reasons: ["URL is not under /content/learn/projects/"] };
+    }
+    if (!location.unitSlug) {
+      return { matched: false, reasons: ["URL is a project overview, not a step"] };
+    }
+    return { matched: true, reasons: [`URL is step "${location.unitSlug}" of project "${location.slug}"`] };
+  },
+  {
+    readContent: (page) => readHandsOnContent(page, selectorsFor),
+    // A step verified by "Check Challenge" has no quiz to open
+    extractQuiz: async (page) => {
+      const waits = await waitUntilReady(page, "challenge");
+      if (await queryFirst(page, "checkChallengeButton")) {
+        return { questions: [], waits };
+      }
+      const quiz = await extractQuiz(page, selectorsFor);
+      return { questions: quiz.questions, waits: [...waits, ...quiz.waits] };
+    },
+  },
+);
+
+const enhancedQuiz = createAdapter(
+  "enhanced-quiz",
+  "A module unit whose quiz uses the enhanced (fieldset and SLDS radio/checkbox) markup",
+  false,
+  excluding(LEGACY_QUIZ_SELECTORS),
+  async (page, expand) => {
+    await expand();
+    const found = await findQuizMarkup(page, ENHANCED_QUIZ_SELECTORS);
+    return found.length > 0
+      ? { matched: true, reasons: found.map((selector) => `Enhanced quiz markup found: ${selector}`) }
+      : { matched: false, reasons: ["No enhanced quiz markup found"] };
+  },
+  {
+    // SLDS inputs are visually hidden behind their labels
+    selectAnswers: (page, questions, answers) => selectAnswers(page, questions, answers, true),
+  },
+);
+
+// Also the fallback when no layout is recognized, so it keeps every
+// fallback selector of the profile, enhanced ones included
+const legacyUnit = createAdapter(
+  "legacy-unit",
+  "A module unit with the original quiz markup (.question / .option), or an unrecognized unit layout",
+  false,
+  selectorsFor,
+  async (page, expand) => {
+    await expand();
+    const found = await findQuizMarkup(page, LEGACY_QUIZ_SELECTORS);
+    return found.length > 0
+      ? { matched: true, reasons: found.map((selector) => `Legacy quiz markup found: ${selector}`) }
+      : { matched: false, reasons: ["No legacy quiz markup found"] };
+  },
+);
+
+// Layouts recognized from the URL alone
+const URL_ADAPTERS = [superbadge, projectStep];
+
+// In order of precedence: URL-based layouts first, then quiz markup
+export const PAGE_ADAPTERS: TrailheadPageAdapter[] = [...URL_ADAPTERS, enhancedQuiz, legacyUnit];
+
+export interface AdapterChoice {
+  adapter: TrailheadPageAdapter;
+  // Every adapter's detection, in order of precedence
+  detections: AdapterDetection[];
+}
+
+/**
+ * The adapter to read the page's content with, chosen from the URL without
+ * opening the challenge: module unit layouts only differ in their quiz and
+ * read content the same way.
+ */
+export async function contentAdapter(page: Page): Promise<TrailheadPageAdapter> {
+  for (const adapter of URL_ADAPTERS) {
+    if ((await adapter.detect(page, async () => undefined)).matched) {
+      return adapter;
+    }
+  }
+  return legacyUnit;
+}
+
+/**
+ * Picks the first adapter, in order of precedence, whose layout the page
+ * matches; the ones after it are not checked. Quiz markup is looked for
+ * with the challenge open, since collapsed challenges don't render it.
+ * Pages that match none are handled by the legacy unit adapter, which
+ * tries every selector of the profile. Only quiz paths call this; content
+ * reads use contentAdapter.
+ */
+export async function detectAdapter(page: Page): Promise<AdapterChoice> {
+  let expanded: Promise<WaitReport[]> | null = null;
+  const expand = async () => {
+    expanded ??= expandChallenge(page, selectorsFor);
+    await expanded;
+  };
+
+  const detections: AdapterDetection[] = [];
+  let matched: AdapterDetection | undefined;
+  for (const adapter of PAGE_ADAPTERS) {
+    if (matched) {
+      detections.push({
+        adapter: adapter.name,
+        matched: false,
+        reasons: [`Not checked; ${matched.adapter} takes precedence`],
+      });
+      continue;
+    }
+    const detection = await adapter.detect(page, expand);
+    detections.push(detection);
+    if (detection.matched) {
+      matched = detection;
+    }
+  }
+  const adapter = PAGE_ADAPTERS.find((candidate) => candidate.name === matched?.adapter) ?? legacyUnit;
+  if (!matched) {
+    detections[detections.length - 1].reasons.push("No layout matched; falling back to every selector");
+  }
+  return { adapter, detections };
+}
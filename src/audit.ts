@@ -0,0 +1,176 @@
+// Audit log: an append-only JSONL record of every tool call, kept under the
+// data directory. Each entry has the tool's arguments, the page URL before
+// and after, the clicks and option selections made and the outcome, so a
+// session on a signed-in account can be reviewed or replayed afterwards.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getDataDir } from "./config.js";
+
+export interface AuditEntry {
+  timestamp: string;
+  // One per client connection
+  sessionId: string;
+  tool: string;
+  args: unknown;
+  urlBefore: string | null;
+  urlAfter: string | null;
+  // Descriptions of the elements clicked, in order
+  clicks: string[];
+  selectedOptionIds: string[];
+  outcome: "ok" | "error";
+  // Start of the tool's response text
+  message: string;
+  durationMs: number;
+}
+
+export interface AuditSession {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string;
+  calls: number;
+  errors: number;
+  tools: string[];
+}
+
+// The longest response excerpt kept in an entry
+const MESSAGE_LENGTH = 500;
+
+// The entry being built for the tool call each piece of work runs for. Calls
+// can interleave while one waits without the browser lock, so this follows
+// the call's async context rather than the order calls started in.
+const activeEntry = new AsyncLocalStorage<AuditEntry>();
+
+export function getAuditFile(): string {
+  return join(getDataDir(), "audit.jsonl");
+}
+
+// Notes a click on behalf of the tool call in progress
+export function auditClick(description: string): void {
+  activeEntry.getStore()?.clicks.push(description);
+}
+
+// Notes quiz options selected on behalf of the tool call in progress
+export function auditSelectedOptions(optionIds: string[]): void {
+  activeEntry.getStore()?.selectedOptionIds.push(...optionIds);
+}
+
+function responseText(result: unknown): { outcome: AuditEntry["outcome"]; message: string } {
+  const response = result as { content?: { type: string; text?: string }[]; isError?: boolean } | undefined;
+  const text = response?.content?.find((item) => item.type === "text")?.text ?? "";
+  return {
+    outcome: response?.isError ? "error" : "ok",
+    message: text.length > MESSAGE_LENGTH ? `${text.slice(0, MESSAGE_LENGTH)}…` : text,
+  };
+}
+
+/**
+ * Runs a tool call and appends its audit entry once it finishes. Thrown
+ * errors are recorded and rethrown; failures to write the log are logged
+ * and never fail the tool.
+ */
+export async function audited<T>(
+  call: { sessionId: string; tool: string; args: unknown },
+  currentUrl: () => string | null,
+  run: () => Promise<T>,
+): Promise<T> {
+  const started = Date.now();
+  const entry: AuditEntry = {
+    timestamp: new Date(started).toISOString(),
+    ...call,
+    urlBefore: currentUrl(),
+    urlAfter: null,
+    clicks: [],
+    selectedOptionIds: [],
+    outcome: "ok",
+    message: "",
+    durationMs: 0,
+  };
+
+  try {
+    const result = await activeEntry.run(entry, run);
+    Object.assign(entry, responseText(result));
+    return result;
+  } catch (error) {
+    entry.outcome = "error";
+    entry.message = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    entry.urlAfter = currentUrl();
+    entry.durationMs = Date.now() - started;
+    try {
+      await mkdir(getDataDir(), { recursive: true });
+      await appendFile(getAuditFile(), `${JSON.stringify(entry)}\n`, "utf8");
+    } catch (error) {
+      console.error("Error writing audit log:", error);
+    }
+  }
+}
+
+export async function readAuditLog(): Promise<AuditEntry[]> {
+  let contents: string;
+  try {
+    contents = await readFile(getAuditFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.error("Skipping unreadable audit log line:", line);
+    }
+  }
+  return entries;
+}
+
+// Sessions in the order they started
+export function listAuditSessions(entries: AuditEntry[]): AuditSession[] {
+  const sessions = new Map<string, AuditSession>();
+  for (const entry of entries) {
+    let session = sessions.get(entry.sessionId);
+    if (!session) {
+      session = {
+        sessionId: entry.sessionId,
+        startedAt: entry.timestamp,
+        endedAt: entry.timestamp,
+        calls: 0,
+        errors: 0,
+        tools: [],
+      };
+      sessions.set(entry.sessionId, session);
+    }
+    session.endedAt = entry.timestamp;
+    session.calls++;
+    if (entry.outcome === "error") session.errors++;
+    if (!session.tools.includes(entry.tool)) session.tools.push(entry.tool);
+  }
+  return [...sessions.values()];
+}
+
+// One line per call, for reading a session at a glance
+export function summarizeAuditSession(entries: AuditEntry[]): string {
+  return entries
+    .map((entry, i) => {
+      const lines = [
+        `${i + 1}. ${entry.timestamp} ${entry.tool} ${JSON.stringify(entry.args ?? {})} → ${entry.outcome} (${entry.durationMs}ms)`,
+      ];
+      if (entry.urlBefore !== entry.urlAfter) {
+        lines.push(`   ${entry.urlBefore ?? "(no page)"} → ${entry.urlAfter ?? "(no page)"}`);
+      } else if (entry.urlBefore) {
+        lines.push(`   on ${entry.urlBefore}`);
+      }
+      if (entry.clicks.length > 0) lines.push(`   clicked: ${entry.clicks.join("; ")}`);
+      if (entry.selectedOptionIds.length > 0) lines.push(`   selected: ${entry.selectedOptionIds.join(", ")}`);
+      if (entry.outcome === "error" && entry.message) lines.push(`   error: ${entry.message}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
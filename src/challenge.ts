@@ -0,0 +1,186 @@
+// Hands-on challenges: units graded by checking the work done in a
+// connected playground org instead of by a quiz.
+
+import type { ElementHandle, Page } from "puppeteer";
+import { auditClick } from "./audit.js";
+import { ToolError } from "./errors.js";
+import { parsePoints } from "./outline.js";
+import { queryFirst } from "./selectors.js";
+
+export interface ChallengeRequirement {
+  index: number;
+  text: string;
+  // Names the checker looks for: quoted or code-formatted text, such as an
+  // object, field or class name
+  names: string[];
+}
+
+export interface ConnectedOrg {
+  // The org the check will run against, as shown in the org picker
+  connected: string | null;
+  // Other orgs the picker offers
+  available: string[];
+}
+
+export interface HandsOnChallenge {
+  requirements: ChallengeRequirement[];
+  org: ConnectedOrg;
+  checkButtonFound: boolean;
+  completed: boolean;
+}
+
+export interface ChallengeCheckResult {
+  status: "passed" | "failed" | "unknown";
+  message: string | null;
+  pointsEarned: number | null;
+  // Seconds spent waiting for Trailhead to finish checking
+  waitedSeconds: number;
+}
+
+/**
+ * Turns the requirement items of a challenge description into a checklist.
+ * `items` holds the text of each list item, or of each paragraph when the
+ * description has no list; `codeNames` the text of its code elements.
+ */
+export function buildChecklist(items: string[], codeNames: string[]): ChallengeRequirement[] {
+  return items
+    .map((item) => item.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((text, index) => {
+      // Single quotes only count away from letters, so apostrophes are skipped
+      const quoted = [...text.matchAll(/"([^"]{2,80})"|“([^”]{2,80})”|(?<!\p{L})'([^']{2,80})'(?!\p{L})/gu)].map(
+        (match) => (match[1] ?? match[2] ?? match[3]).trim(),
+      );
+      const code = codeNames.filter((name) => text.includes(name));
+      return { index, text, names: [...new Set([...quoted, ...code])] };
+    });
+}
+
+export async function readHandsOnChallenge(page: Page): Promise<HandsOnChallenge> {
+  let items: string[] = [];
+  let codeNames: string[] = [];
+  const requirementsEl = await queryFirst(page, "challengeRequirements");
+  if (requirementsEl) {
+    ({ items, codeNames } = await requirementsEl.evaluate((el) => {
+      const text = (node: Element) => (node as HTMLElement).innerText || node.textContent || "";
+      const listItems = Array.from(el.querySelectorAll("li"));
+      const blocks = listItems.length > 0 ? listItems : Array.from(el.querySelectorAll("p"));
+      return {
+        items: blocks.length > 0 ? blocks.map(text) : text(el).split("\n"),
+        codeNames: Array.from(el.querySelectorAll("code, strong")).map((node) => text(node).trim()),
+      };
+    }));
+  }
+
+  const orgEl = await queryFirst(page, "connectedOrg");
+  const org: ConnectedOrg = orgEl
+    ? await orgEl.evaluate((el) => {
+        const select = el instanceof HTMLSelectElement ? el : el.querySelector("select");
+        if (select) {
+          return {
+            connected: select.selectedOptions[0]?.textContent?.trim() || null,
+            available: Array.from(select.options).map((option) => option.textContent?.trim() ?? ""),
+          };
+        }
+        const options = Array.from(el.querySelectorAll("[role='option']")).map(
+          (option) => option.textContent?.trim() ?? "",
+        );
+        const button = el.querySelector("button, [role='combobox']");
+        return {
+          connected: (button ?? el).textContent?.replace(/\s+/g, " ").trim() || null,
+          available: options.filter(Boolean),
+        };
+      })
+    : { connected: null, available: [] };
+
+  return {
+    requirements: buildChecklist(items, codeNames),
+    org,
+    checkButtonFound: !!(await queryFirst(page, "checkChallengeButton")),
+    completed: !!(await queryFirst(page, "quizComplete")),
+  };
+}
+
+async function readText(page: Page, element: "quizComplete" | "challengeError"): Promise<string | null> {
+  const el = await queryFirst(page, element);
+  return el ? await textOf(el) : null;
+}
+
+async function textOf(el: ElementHandle<Element>): Promise<string> {
+  return await el.evaluate((node) => ((node as HTMLElement).innerText || node.textContent || "").trim());
+}
+
+// Whether Trailhead is checking the org: a visible spinner, or the check
+// button disabled
+async function isChecking(page: Page): Promise<boolean> {
+  const spinner = await queryFirst(page, "challengeChecking");
+  if (spinner && (await spinner.evaluate((el) => el.getClientRects().length > 0))) {
+    return true;
+  }
+  const button = await queryFirst(page, "checkChallengeButton");
+  return !!button && (await button.evaluate((el) => {
+    const target = el.closest("button") ?? el;
+    return (target as HTMLButtonElement).disabled === true || target.getAttribute("aria-disabled") === "true";
+  }));
+}
+
+/**
+ * Clicks "Check Challenge" and waits for Trailhead's verdict: the
+ * completion banner, or an error message from this check. An error shown
+ * before the click only counts once it has gone away, been re-rendered or
+ * changed, or a check has visibly run, since a re-check often fails with
+ * the same message. Checking runs against the org and can take a minute.
+ */
+export async function checkChallenge(page: Page, timeoutSeconds: number): Promise<ChallengeCheckResult> {
+  const button = await queryFirst(page, "checkChallengeButton");
+  if (!button) {
+    throw new ToolError("CHALLENGE_NOT_FOUND", 'Could not find the "Check Challenge" button');
+  }
+
+  const previousError = await queryFirst(page, "challengeError");
+  const previousText = previousError ? await textOf(previousError) : null;
+  await button.click();
+  auditClick('"Check Challenge" button');
+
+  // Set once the old error can no longer be mistaken for the new verdict
+  let superseded = !previousError;
+  const started = Date.now();
+  const waited = () => Math.round((Date.now() - started) / 1000);
+  try {
+    while (Date.now() - started < timeoutSeconds * 1000) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const complete = await readText(page, "quizComplete");
+      if (complete !== null) {
+        return { status: "passed", message: complete, pointsEarned: parsePoints(complete), waitedSeconds: waited() };
+      }
+      if (await isChecking(page)) {
+        superseded = true;
+        continue;
+      }
+
+      const error = await queryFirst(page, "challengeError");
+      if (!error) {
+        superseded = true;
+        continue;
+      }
+      const text = await textOf(error);
+      if (!superseded && previousError) {
+        const sameNode = await error.evaluate((el, previous) => el === previous, previousError);
+        superseded = !sameNode || text !== previousText;
+      }
+      if (superseded && text) {
+        return { status: "failed", message: text, pointsEarned: null, waitedSeconds: waited() };
+      }
+    }
+  } finally {
+    await previousError?.dispose().catch(() => undefined);
+  }
+
+  return {
+    status: "unknown",
+    message: (await readText(page, "challengeError")) ?? "Trailhead did not report a result in time",
+    pointsEarned: null,
+    waitedSeconds: waited(),
+  };
+}
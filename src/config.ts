@@ -0,0 +1,73 @@
+// Command line and environment settings.
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Reads a setting from a `--flag value` or `--flag=value` command line
+ * argument, falling back to an environment variable.
+ */
+export function readOption(flag: string, envVar: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === flag && i + 1 < args.length) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${flag}=`)) {
+      return args[i].slice(flag.length + 1);
+    }
+  }
+  return process.env[envVar] || undefined;
+}
+
+// Directory for the progress ledger, snapshots and other local state
+export function getDataDir(): string {
+  return readOption("--data-dir", "TRAILHEAD_MCP_DATA_DIR") ?? join(homedir(), ".trailhead-mcp");
+}
+
+/**
+ * Reads a boolean setting: a bare `--flag` (or `--flag=true`) on the
+ * command line, or an environment variable set to `1`, `true` or `yes`.
+ */
+export function readFlag(flag: string, envVar: string): boolean {
+  const args = process.argv.slice(2);
+  if (args.includes(flag)) {
+    return true;
+  }
+  const value = args.find((arg) => arg.startsWith(`${flag}=`))?.slice(flag.length + 1)
+    ?? process.env[envVar];
+  return /^(1|true|yes)$/i.test(value ?? "");
+}
+
+export interface BrowserOptions {
+  // Connect to this DevTools WebSocket endpoint instead of probing ports
+  browserWSEndpoint?: string;
+  // Connect to this DevTools HTTP URL, e.g. http://localhost:9222
+  browserURL?: string;
+  // Local remote-debugging ports probed when no endpoint or URL is given
+  debuggingPorts: number[];
+  // Settings for launching a browser when none can be connected to
+  headless: boolean;
+  executablePath?: string;
+  userDataDir: string;
+  extraArgs: string[];
+}
+
+export function getBrowserOptions(): BrowserOptions {
+  const ports = readOption("--debugging-ports", "TRAILHEAD_MCP_DEBUGGING_PORTS");
+  const extraArgs = readOption("--chrome-args", "TRAILHEAD_MCP_CHROME_ARGS");
+
+  return {
+    browserWSEndpoint: readOption("--browser-ws-endpoint", "TRAILHEAD_MCP_BROWSER_WS_ENDPOINT"),
+    browserURL: readOption("--browser-url", "TRAILHEAD_MCP_BROWSER_URL"),
+    debuggingPorts: ports
+      ? ports.split(",").map((port) => Number(port.trim())).filter((port) => port > 0)
+      : [9222, 9223, 9224],
+    headless: readFlag("--headless", "TRAILHEAD_MCP_HEADLESS"),
+    executablePath: readOption("--executable-path", "TRAILHEAD_MCP_EXECUTABLE_PATH"),
+    userDataDir:
+      readOption("--user-data-dir", "TRAILHEAD_MCP_USER_DATA_DIR") ?? "/tmp/trailhead-mcp-user-data",
+    // Whitespace separated, since Chrome arguments may contain commas
+    extraArgs: extraArgs ? extraArgs.split(/\s+/).filter(Boolean) : [],
+  };
+}
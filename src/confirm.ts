@@ -0,0 +1,197 @@
+// Human review of quiz answers before they are submitted on the signed-in
+// account: when to ask, and the elicitation form that asks.
+
+import type { ElicitRequest } from "@modelcontextprotocol/sdk/types.js";
+import { readOption } from "./config.js";
+import type { QuizAnswers, QuizQuestion } from "./quiz.js";
+
+export const CONFIRM_POLICIES = ["never", "always", "on-low-confidence"] as const;
+
+export type ConfirmPolicy = (typeof CONFIRM_POLICIES)[number];
+
+// Confidence in each answer by question ID, from 0 to 1
+export type AnswerConfidence = Record<string, number>;
+
+// Answers below this confidence are reviewed under "on-low-confidence"
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+
+// How long the human has to answer the confirmation form. Clients give up
+// on a tool call after about a minute unless it reports progress.
+export const DEFAULT_CONFIRMATION_TIMEOUT_SECONDS = 50;
+
+let activePolicy: ConfirmPolicy = "never";
+let activeThreshold = DEFAULT_CONFIDENCE_THRESHOLD;
+let activeTimeoutMs = DEFAULT_CONFIRMATION_TIMEOUT_SECONDS * 1000;
+
+/**
+ * Reads the policy from `--confirm-submit` (`TRAILHEAD_MCP_CONFIRM_SUBMIT`),
+ * the threshold from `--confirm-threshold`
+ * (`TRAILHEAD_MCP_CONFIRM_THRESHOLD`) and the form's timeout in seconds from
+ * `--confirm-timeout` (`TRAILHEAD_MCP_CONFIRM_TIMEOUT`). Throws on values it
+ * doesn't know.
+ */
+export function loadConfirmPolicy(): ConfirmPolicy {
+  const policy = readOption("--confirm-submit", "TRAILHEAD_MCP_CONFIRM_SUBMIT") ?? "never";
+  if (!CONFIRM_POLICIES.includes(policy as ConfirmPolicy)) {
+    throw new Error(`Unknown confirmation policy "${policy}", expected ${CONFIRM_POLICIES.join(", ")}`);
+  }
+
+  const threshold = readOption("--confirm-threshold", "TRAILHEAD_MCP_CONFIRM_THRESHOLD");
+  const parsed = threshold === undefined ? DEFAULT_CONFIDENCE_THRESHOLD : Number(threshold);
+  if (!(parsed >= 0 && parsed <= 1)) {
+    throw new Error(`Invalid confirmation threshold "${threshold}", expected a number from 0 to 1`);
+  }
+
+  const timeout = readOption("--confirm-timeout", "TRAILHEAD_MCP_CONFIRM_TIMEOUT");
+  const seconds = timeout === undefined ? DEFAULT_CONFIRMATION_TIMEOUT_SECONDS : Number(timeout);
+  if (!(seconds > 0)) {
+    throw new Error(`Invalid confirmation timeout "${timeout}", expected a number of seconds`);
+  }
+
+  activePolicy = policy as ConfirmPolicy;
+  activeThreshold = parsed;
+  activeTimeoutMs = seconds * 1000;
+  if (activePolicy !== "never") {
+    console.error(`Quiz submissions need confirmation: ${activePolicy}`);
+  }
+  return activePolicy;
+}
+
+export function getConfirmPolicy(): ConfirmPolicy {
+  return activePolicy;
+}
+
+export function getConfirmationTimeout(): number {
+  return activeTimeoutMs;
+}
+
+/**
+ * The IDs of the questions whose answers the human has to review: every
+ * question under "always", none under "never", and under
+ * "on-low-confidence" those with no confidence or one below the threshold.
+ */
+export function questionsToConfirm(questions: QuizQuestion[], confidence: AnswerConfidence = {}): string[] {
+  switch (activePolicy) {
+    case "never":
+      return [];
+    case "always":
+      return questions.map((question) => question.id);
+    case "on-low-confidence":
+      return questions
+        .filter((question) => !((confidence[question.id] ?? 0) >= activeThreshold))
+        .map((question) => question.id);
+  }
+}
+
+// Each question's text and the text of its chosen options, numbered as on
+// the page, with the questions in `flagged` marked as low confidence
+export function describeAnswers(questions: QuizQuestion[], answers: QuizAnswers, flagged: string[] = []): string {
+  const lowConfidence = activePolicy === "on-low-confidence" ? new Set(flagged) : new Set<string>();
+  return questions
+    .map((question, index) => {
+      const chosen = question.options.filter((option) => answers[question.id]?.includes(option.id));
+      const lines = [
+        `${index + 1}. ${question.text}${lowConfidence.has(question.id) ? " (low confidence)" : ""}`,
+        ...(chosen.length > 0 ? chosen.map((option) => `   → ${option.text}`) : ["   → (no answer)"]),
+      ];
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * The elicitation request asking the human to approve the answers. Each
+ * question is a field pre-filled with the proposed answer: a choice of
+ * options for single-answer questions, and comma-separated option numbers
+ * for multiple-choice ones.
+ */
+export function buildConfirmationRequest(
+  questions: QuizQuestion[],
+  answers: QuizAnswers,
+  flagged: string[],
+): ElicitRequest["params"] {
+  const properties: ElicitRequest["params"]["requestedSchema"]["properties"] = {};
+  questions.forEach((question, index) => {
+    const title = `${index + 1}. ${question.text}`;
+    const proposed = answers[question.id] ?? [];
+    if (question.type === "multiple") {
+      properties[question.id] = {
+        type: "string",
+        title,
+        description: [
+          ...question.options.map((option, position) => `${position + 1}. ${option.text}`),
+          "Option numbers to select, separated by commas",
+        ].join("\n"),
+        default: question.options
+          .map((option, position) => (proposed.includes(option.id) ? String(position + 1) : null))
+          .filter((position) => position !== null)
+          .join(", "),
+      };
+    } else {
+      properties[question.id] = {
+        type: "string",
+        title,
+        enum: question.options.map((option) => option.id),
+        enumNames: question.options.map((option) => option.text),
+        ...(proposed[0] ? { default: proposed[0] } : {}),
+      };
+    }
+  });
+
+  return {
+    message: [
+      "Submit these answers to the Trailhead quiz? Change any answer below and accept to submit, or decline to leave the quiz unsubmitted.",
+      "",
+      describeAnswers(questions, answers, flagged),
+    ].join("\n"),
+    requestedSchema: {
+      type: "object",
+      properties,
+      required: questions.map((question) => question.id),
+    },
+  };
+}
+
+/**
+ * Reads the answers back from an accepted confirmation form, along with
+ * one message per value that names no option. Questions the client left
+ * out keep their proposed answer.
+ */
+export function readConfirmedAnswers(
+  questions: QuizQuestion[],
+  proposed: QuizAnswers,
+  content: Record<string, unknown> = {},
+): { answers: QuizAnswers; problems: string[] } {
+  const answers: QuizAnswers = { ...proposed };
+  const problems: string[] = [];
+  questions.forEach((question, index) => {
+    const value = content[question.id];
+    if (typeof value !== "string") {
+      return;
+    }
+    if (question.type !== "multiple") {
+      answers[question.id] = [value];
+      return;
+    }
+    const selected: string[] = [];
+    for (const number of value.match(/\d+/g) ?? []) {
+      const option = question.options[Number(number) - 1];
+      if (option) {
+        selected.push(option.id);
+      } else {
+        problems.push(`Question ${index + 1} has no option ${number}`);
+      }
+    }
+    answers[question.id] = [...new Set(selected)];
+  });
+  return { answers, problems };
+}
+
+// The questions whose selected options differ between two answer maps
+export function changedQuestionIds(before: QuizAnswers, after: QuizAnswers): string[] {
+  return Object.keys({ ...before, ...after }).filter((id) => {
+    const previous = [...(before[id] ?? [])].sort();
+    const next = [...(after[id] ?? [])].sort();
+    return previous.length !== next.length || previous.some((optionId, i) => optionId !== next[i]);
+  });
+}
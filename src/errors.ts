@@ -0,0 +1,66 @@
+// The error envelope every tool returns on failure, so clients can branch
+// on a stable code instead of parsing messages.
+
+export type ToolErrorCode =
+  | "NOT_TRAILHEAD_PAGE"
+  | "CONTENT_NOT_FOUND"
+  | "QUIZ_NOT_FOUND"
+  | "QUIZ_NOT_RETRYABLE"
+  | "ANSWERS_REJECTED"
+  | "SELECTION_NOT_VERIFIED"
+  | "NO_PENDING_SUBMISSION"
+  | "PAGE_CHANGED"
+  | "SUBMIT_NOT_FOUND"
+  | "CHALLENGE_NOT_FOUND"
+  | "OUTLINE_NOT_FOUND"
+  | "ELEMENT_NOT_FOUND"
+  | "NAVIGATION_TIMEOUT"
+  | "NAVIGATION_FAILED"
+  | "TAB_NOT_FOUND"
+  | "MULTIPLE_TABS"
+  | "NOT_FOUND"
+  | "INVALID_ARGUMENTS"
+  | "PROFILE_NOT_READABLE"
+  | "INTERNAL_ERROR";
+
+export interface ToolErrorEnvelope {
+  error: {
+    code: ToolErrorCode;
+    message: string;
+    details?: unknown;
+  };
+}
+
+// An error carrying the code a tool should report it under
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/**
+ * Builds the envelope for a failure. A `ToolError` cause keeps its own code,
+ * since it knows more about what went wrong than the tool's fallback code.
+ */
+export function toErrorEnvelope(
+  code: ToolErrorCode,
+  message: string,
+  cause?: unknown,
+  details?: unknown,
+): ToolErrorEnvelope {
+  const toolError = cause instanceof ToolError ? cause : null;
+  const causeMessage = cause instanceof Error ? cause.message : cause === undefined ? null : String(cause);
+  const resolvedDetails = details ?? toolError?.details;
+  return {
+    error: {
+      code: toolError?.code ?? code,
+      message: causeMessage ? `${message}: ${causeMessage}` : message,
+      ...(resolvedDetails !== undefined && { details: resolvedDetails }),
+    },
+  };
+}
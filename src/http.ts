@@ -0,0 +1,185 @@
+// Streamable HTTP and legacy SSE transports.
+//
+// `/mcp` speaks the Streamable HTTP transport; `/sse` plus `/messages` speak
+// the older HTTP+SSE transport for clients that have not moved on yet. Every
+// session gets its own MCP server from `createServer`, and all of them share
+// the one browser.
+//
+// The browser is signed in to the user's Salesforce account, so requests
+// must name an allowed host (against DNS rebinding), and a token is required
+// to listen on anything but loopback.
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // When set, every request must carry `Authorization: Bearer <token>`
+  authToken?: string;
+  // Host names clients may use besides the loopback ones, with or without a port
+  allowedHosts?: string[];
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1", "[::1]"];
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host) || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+// Every `Host` header value a legitimate client can send
+function allowedHostHeaders(options: HttpServerOptions, port: number): string[] {
+  const names = ["127.0.0.1", "localhost", "[::1]", ...(options.allowedHosts ?? [])];
+  if (options.host !== "0.0.0.0" && options.host !== "::") {
+    names.push(options.host.includes(":") ? `[${options.host}]` : options.host);
+  }
+  return [...new Set(names.map((name) => (/:\d+$/.test(name) ? name : `${name}:${port}`)))];
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close: () => Promise<void>;
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf8");
+  return body ? JSON.parse(body) : undefined;
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createServer: () => McpServer,
+): Promise<HttpServerHandle> {
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(`Refusing to listen on ${options.host} without --auth-token; anyone who can reach it could drive your browser`);
+  }
+
+  // Filled in once the port is known
+  let allowedHosts: string[] = [];
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+        sendJsonError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No valid session ID provided");
+        return;
+      }
+
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          streamableTransports.set(id, created);
+          console.error(`HTTP session ${id} started`);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) {
+          streamableTransports.delete(created.sessionId);
+          console.error(`HTTP session ${created.sessionId} closed`);
+        }
+      };
+      await createServer().connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res, { enableDnsRebindingProtection: true, allowedHosts });
+    sseTransports.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      console.error(`SSE session ${transport.sessionId} closed`);
+    });
+    await createServer().connect(transport);
+    console.error(`SSE session ${transport.sessionId} started`);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const transport = sseTransports.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      sendJsonError(res, 404, "Unknown session");
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const server = createHttpServer(async (req, res) => {
+    try {
+      // The transports check this too, but only once a session exists
+      if (!allowedHosts.includes(req.headers.host ?? "")) {
+        sendJsonError(res, 403, `Invalid Host header: ${req.headers.host}`);
+        return;
+      }
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.writeHead(401, { "WWW-Authenticate": "Bearer" });
+        res.end("Unauthorized");
+        return;
+      }
+
+      const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404);
+        res.end("Not found");
+      }
+    } catch (error) {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, error instanceof Error ? error.message : String(error));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  allowedHosts = allowedHostHeaders(options, port);
+  return {
+    url: `http://${options.host}:${port}`,
+    close: async () => {
+      await Promise.all([
+        ...[...streamableTransports.values()].map((t) => t.close()),
+        ...[...sseTransports.values()].map((t) => t.close()),
+      ]);
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -1,37 +1,133 @@
 #!/usr/bin/env bun
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
 import type { Browser, Page } from "puppeteer";
-import puppeteer from "puppeteer";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import puppeteer, { TimeoutError } from "puppeteer";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-
-// Define types for quiz structure
-interface QuizOption {
-  id: string;
-  text: string;
-  index: number;
-}
-
-interface QuizQuestion {
-  text: string;
-  options: QuizOption[];
-}
-
-interface QuizStructure {
-  questions: QuizQuestion[];
-  error?: string;
-}
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ElicitRequest,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { z, type ZodRawShape } from "zod";
+import { contentAdapter, detectAdapter, PAGE_ADAPTERS, type TrailheadPageAdapter } from "./adapters.js";
+import {
+  audited,
+  auditClick,
+  getAuditFile,
+  listAuditSessions,
+  readAuditLog,
+  summarizeAuditSession,
+} from "./audit.js";
+import { checkChallenge, readHandsOnChallenge } from "./challenge.js";
+import { getBrowserOptions, readOption } from "./config.js";
+import {
+  buildConfirmationRequest,
+  changedQuestionIds,
+  describeAnswers,
+  getConfirmationTimeout,
+  loadConfirmPolicy,
+  questionsToConfirm,
+  readConfirmedAnswers,
+  type AnswerConfidence,
+} from "./confirm.js";
+import { toErrorEnvelope, ToolError, type ToolErrorCode } from "./errors.js";
+import { startHttpServer, type HttpServerHandle } from "./http.js";
+import { debugSelector, formatSelectorReport, outlineDom } from "./inspect.js";
+import { getKnowledgeFile, indexUnit, searchKnowledge } from "./knowledge.js";
+import { detectLocale, localizeUrl, uiStrings, type TrailheadLocale, type UiString } from "./locale.js";
+import { formatOutline, type UnitMarkdown } from "./markdown.js";
+import { buildOutline, collectOutlineLinks, type ContentOutline } from "./outline.js";
+import {
+  groupOptionIds,
+  validateAnswers,
+  verifySelection,
+  type QuizAnswers,
+  type QuizQuestion,
+  type QuizResult,
+  type SelectionVerification,
+} from "./quiz.js";
+import { collectPageText, parseProfile, PROFILE_URL } from "./profile.js";
+import {
+  getLedgerFile,
+  progressToCsv,
+  readProgress,
+  recordProgress,
+  summarizeProgress,
+} from "./progress.js";
+import {
+  checkSelectorHealth,
+  getSelectorProfile,
+  loadSelectorProfile,
+  queryAll,
+  queryFirst,
+  selectorsFor,
+} from "./selectors.js";
+import {
+  getReplayDir,
+  isReplayEnabled,
+  saveSnapshot,
+  serializeDocument,
+  setReplayOrigin,
+  startReplayServer,
+  toReplayUrl,
+  type ReplayServer,
+} from "./snapshots.js";
+import {
+  buildSearchUrl,
+  filterSearchResults,
+  parseSearchResults,
+  type SearchFilters,
+  type SearchResult,
+} from "./search.js";
+import {
+  buildStudyPack,
+  getStudyDir,
+  listStudyModules,
+  recordConfirmedAnswers,
+  recordQuizQuestions,
+  writeStudyPack,
+} from "./study.js";
+import {
+  quizStructureOutputShape,
+  quizSubmissionOutputShape,
+  unitContentOutputShape,
+  type QuizQuestionsOutput,
+  type QuizSubmission,
+  type UnitContent,
+} from "./schemas.js";
+import { captureScreenshot } from "./screenshots.js";
+import { addTrailheadHost, isTrailheadUrl, normalizeUrl, parseTrailheadUrl } from "./urls.js";
+import {
+  elementsReady,
+  getWaitPolicy,
+  loadWaitPolicies,
+  waitUntilReady,
+  waitUntilReplaced,
+  type WaitReport,
+} from "./waits.js";
+
+type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text: string } | { uri: string; mimeType?: string; blob: string };
+    };
 
 type McpResponse = {
-  content: {
-    type: "text";
-    text: string;
-  }[];
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 };
 
 // Helper functions for MCP responses
-function createMcpResponse(text: string, isError: boolean = false): McpResponse {
+function createMcpResponse(text: string): McpResponse {
   return {
     content: [
       {
@@ -39,35 +135,79 @@ function createMcpResponse(text: string, isError: boolean = false): McpResponse
         text,
       },
     ],
-    ...(isError && { isError: true }),
   };
 }
 
-function createMcpError(message: string, originalError?: Error): McpResponse {
-  const errorMessage = originalError 
-    ? `${message}: ${originalError.message}`
-    : message;
-  
-  console.error("MCP Error:", errorMessage);
-  
-  return createMcpResponse(errorMessage, true);
+// Structured result for tools that declare an output schema, with the same
+// data as JSON text for clients that only read text content
+function createStructuredResponse<T extends object>(data: T): McpResponse {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    structuredContent: data as Record<string, unknown>,
+  };
 }
 
-// Create server instance
-const server = new McpServer({
-  name: "trailhead-mcp",
-  version: "1.0.0",
-});
+// Every tool failure is reported as a ToolErrorEnvelope in JSON text. It is
+// not sent as structured content: clients check that against the tool's
+// output schema even for errors.
+function createMcpError(
+  code: ToolErrorCode,
+  message: string,
+  originalError?: unknown,
+  details?: unknown,
+): McpResponse {
+  const envelope = toErrorEnvelope(code, message, originalError, details);
+  console.error(`MCP Error [${envelope.error.code}]:`, envelope.error.message);
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(envelope, null, 2) }],
+    isError: true,
+  };
+}
 
 // Browser management
-let browser: Browser;
+let browser: Browser | null = null;
 let currentPage: Page | null = null;
+// Tab chosen explicitly with select-tab or open-tab
+let pinnedPage: Page | null = null;
+let replayServer: ReplayServer | null = null;
+let httpServer: HttpServerHandle | null = null;
+
+// Navigates the page, sending Trailhead URLs to the replay server in replay
+// mode. Loads that time out are retried as the navigation wait policy allows.
+async function navigate(page: Page, url: string): Promise<void> {
+  const { timeoutMs, retries, backoffMs } = getWaitPolicy("navigation");
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await page.goto(toReplayUrl(url), { waitUntil: "networkidle2", timeout: timeoutMs });
+      return;
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        throw error;
+      }
+      if (attempt >= retries) {
+        throw new ToolError("NAVIGATION_TIMEOUT", `Timed out loading ${url} after ${attempt + 1} attempt(s)`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, backoffMs * 2 ** attempt));
+    }
+  }
+}
 
 async function setupBrowserConnection(): Promise<Browser> {
+  const options = getBrowserOptions();
+
+  // An explicit endpoint or URL is the only browser we may use
+  if (options.browserWSEndpoint) {
+    console.error(`Connecting to browser at ${options.browserWSEndpoint}...`);
+    return await puppeteer.connect({ browserWSEndpoint: options.browserWSEndpoint, defaultViewport: null });
+  }
+  if (options.browserURL) {
+    console.error(`Connecting to browser at ${options.browserURL}...`);
+    return await puppeteer.connect({ browserURL: options.browserURL, defaultViewport: null });
+  }
+
   // Try to connect to existing browser instances first
-  const debuggingPorts = [9222, 9223, 9224];
-  
-  for (const port of debuggingPorts) {
+  for (const port of options.debuggingPorts) {
     try {
       console.error(`Trying to connect to existing browser on port ${port}...`);
       const connectedBrowser = await puppeteer.connect({
@@ -82,476 +222,619 @@ async function setupBrowserConnection(): Promise<Browser> {
 
   // If no existing browser found, launch a new one
   console.error("No existing browser found. Launching new browser...");
-  console.error("Tip: To use your current browser, start Chrome with: google-chrome --remote-debugging-port=9222");
+  console.error(`Tip: To use your current browser, start Chrome with: google-chrome --remote-debugging-port=${options.debuggingPorts[0] ?? 9222}`);
   
   return await puppeteer.launch({
-    headless: false,
+    headless: options.headless,
+    executablePath: options.executablePath,
     defaultViewport: null,
-    userDataDir: "/tmp/trailhead-mcp-user-data",
+    userDataDir: options.userDataDir,
     args: [
       '--restore-last-session',           // Restore tabs from the previous session
       '--disable-session-crashed-bubble', // Prevent "Chrome didn't shut down correctly" popup
       '--disable-infobars',               // Remove info bars that might interfere
       '--no-first-run',                   // Skip first-run setup
+      ...options.extraArgs,
     ],
   });
 }
 
-server.tool(
-  "get-current-trail-content",
-  "Get the current salesforce trailhead page's content as text. The answers to the quizzes will be based on this content.",
-  {},
-  async () => {
-    if (!(await isTrailheadPage())) {
-      return createMcpError(TRAILHEAD_ERROR_MESSAGE);
-    }
-    const page = await getCurrentPage();
-    return createMcpResponse(
-      (await page.$eval("article > div.unit-content", (el: any) =>
-        el.textContent?.trim(),
-      )) ?? ""
-    );
-  },
-);
+// The adapter for the page's layout
+async function getPageAdapter(page: Page): Promise<TrailheadPageAdapter> {
+  return (await detectAdapter(page)).adapter;
+}
+
+// Extracts the unit content and adds it to the local knowledge index
+async function readUnitMarkdown(page: Page): Promise<UnitMarkdown> {
+  const unit = await (await contentAdapter(page)).readContent(page);
+  try {
+    await indexUnit({ url: normalizeUrl(page.url()), title: await getPageTitle(page), markdown: unit.markdown });
+  } catch (error) {
+    console.error("Error indexing unit content:", error);
+  }
+  return unit;
+}
 
 async function getQuestionJson(): Promise<McpResponse> {
   const page = await getCurrentPage();
 
   try {
-    // Wait for the challenge div to be present
-    await page.waitForSelector("article >>> div#challenge", { timeout: 100 });
-
-    // Click to expand the challenge if it's not expanded
-    const challengeDiv = await page.$("article >>> div#challenge");
-    if (challengeDiv) {
-      await challengeDiv.click();
-      // Wait for the quiz to be visible
-      await page
-        .waitForSelector("div#challenge .th-enhanced-quiz, div#challenge .th-quiz", { timeout: 500 })
-        .catch((e: any) => {
-          console.error("Error waiting for quiz", e);
-        });
-    }
+    const adapter = await getPageAdapter(page);
+    const { questions: questionList, waits } = await adapter.extractQuiz(page);
 
-    // Find questions using selectors that work for both old and new structures
-    const questions = await page.$$("article >>> div#challenge .question, article >>> div#challenge fieldset.th-quiz__question");
-
-    if (questions.length > 0) {
-      const questionList = await Promise.all(
-        questions.map(async (questionEl: any, questionIndex: any) => {
-          const questionTextEl = await questionEl.$(".question-label, .th-quiz__question-text");
-          const questionText = questionTextEl
-            ? await questionTextEl.evaluate((e: any) => e.textContent?.trim())
-            : `Question ${questionIndex + 1}`;
-
-          const optionEls = await questionEl.$$(".option, .slds-radio_button");
-
-          const options = await Promise.all(
-            optionEls.map(async (optionEl: any, optionIndex: any) => {
-              const optionText =
-                (await optionEl.$eval(".option-text, .th-quiz__item-text", (e: any) =>
-                  e.textContent?.trim(),
-                )) || "";
-              const optionId = optionEl
-                ? await optionEl.$eval("input", (e: any) => e.id)
-                : `q${questionIndex}_o${optionIndex}`;
-
-              return {
-                id: optionId,
-                text: optionText,
-                index: optionIndex,
-              };
-            }),
-          );
-
-          return {
-            text: questionText || `Question ${questionIndex + 1}`,
-            options: options,
-          };
-        }),
+    if (questionList.length > 0) {
+      await recordQuizQuestions(normalizeUrl(page.url()), await getPageTitle(page), questionList).catch(
+        (error) => console.error("Error recording quiz questions:", error),
+      );
+      return createStructuredResponse<QuizQuestionsOutput>({
+        locale: await detectLocale(page),
+        questions: questionList,
+        waits,
+      });
+    } else if (
+      adapter.handsOn ||
+      (await queryFirst(page, "checkChallengeButton", adapter.selectorsFor("checkChallengeButton")))
+    ) {
+      return createMcpError(
+        "QUIZ_NOT_FOUND",
+        "This unit has a hands-on challenge instead of a quiz. Use get-hands-on-challenge and check-hands-on-challenge.",
       );
-
-      return createMcpResponse(JSON.stringify({ questions: questionList }, null, 2));
     } else {
-      return createMcpError("Could not find quiz questions");
+      return createMcpError("QUIZ_NOT_FOUND", "Could not find quiz questions", undefined, { waits });
     }
   } catch (error) {
-    console.error("Error getting quiz structure:", error);
-    return createMcpResponse(JSON.stringify(
-      {
-        questions: [],
-        error: error instanceof Error ? error.message : String(error),
-      },
-      null,
-      2,
-    ));
+    return createMcpError("QUIZ_NOT_FOUND", "Error getting quiz structure", error);
   }
 }
 
-server.tool(
-  "get-trail-quiz-questions",
-  "Get the current pages quiz questions as a JSON string",
-  {},
-  async () => {
-    if (!(await isTrailheadPage())) {
-      return createMcpError(TRAILHEAD_ERROR_MESSAGE);
-    }
-    return await getQuestionJson();
-  },
-);
+// Submissions made through this server, keyed by unit URL (without hash)
+const quizAttempts = new Map<string, number>();
 
-interface AnswerQuizParams {
-  optionIds: string[];
+function unitKey(page: Page): string {
+  return page.url().split("#")[0];
 }
 
-server.tool(
-  "answer-trail-quiz",
-  "Submit answers to the quiz using option IDs. It is important that you use the current trailhead pages content, and think very very carefully to select the right option answer for each quiz question before calling this.",
-  // Define schema object separately to avoid the "possibly undefined" error
-  {
-    optionIds: z
-      .array(z.string())
-      .describe(
-        "Required array of option IDs to select (one per question) based on the trailhead pages content",
-      ),
-  },
-  async (params: AnswerQuizParams) => {
-    if (!(await isTrailheadPage())) {
-      return createMcpError(TRAILHEAD_ERROR_MESSAGE);
-    }
-    const page = await getCurrentPage();
-    let result = "";
-    const { optionIds } = params;
+// Selects the answers and reads back every question's checked state
+async function selectAndVerify(
+  page: Page,
+  adapter: TrailheadPageAdapter,
+  questions: QuizQuestion[],
+  answers: QuizAnswers,
+  unknownOptionIds: string[] = [],
+): Promise<SelectionVerification & { failures: string[] }> {
+  const outcome = await adapter.selectAnswers(page, questions, answers);
+  const selected = await adapter.readSelectedAnswers(page, questions);
+  return {
+    ...verifySelection(questions, answers, selected, [
+      ...unknownOptionIds,
+      ...outcome.missingOptionIds,
+    ]),
+    failures: outcome.failures,
+  };
+}
 
-    try {
-      // Wait for the challenge div to be present
-      await page.waitForSelector("main div#challenge", { timeout: 100 });
-
-      // Click to expand the challenge if it's not expanded
-      const challengeDiv = await page.$("main div#challenge");
-      if (challengeDiv) {
-        await challengeDiv.click();
-        // Wait for the quiz to be visible
-        await page.waitForSelector("div#challenge .th-enhanced-quiz, div#challenge .th-quiz", { timeout: 500 }).catch((e: any) => {
-          console.error("Error waiting for quiz", e);
-        });
-      }
+function describeVerificationFailure(verification: SelectionVerification): string {
+  const reasons: string[] = [];
+  if (verification.unansweredQuestionIds.length > 0) {
+    reasons.push(`unanswered questions: ${verification.unansweredQuestionIds.join(", ")}`);
+  }
+  if (verification.mismatchedQuestionIds.length > 0) {
+    reasons.push(`selection did not stick for: ${verification.mismatchedQuestionIds.join(", ")}`);
+  }
+  if (verification.unknownOptionIds.length > 0) {
+    reasons.push(`unknown option IDs: ${verification.unknownOptionIds.join(", ")}`);
+  }
+  return reasons.join("; ");
+}
 
-      // Select each answer by ID
-      for (let i = 0; i < optionIds.length; i++) {
-        const optionId = optionIds[i];
-
-        // Try to click the option by ID
-        try {
-          await page.evaluate((id: any) => {
-            const input = document.getElementById(id);
-            if (input) {
-              input.click();
-            }
-          }, optionId);
-
-          console.error(`Selected answer with ID ${optionId}`);
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          console.error(`Error selecting option ${optionId}:`, error);
-          result += `\nFailed to select option ${optionId}: ${errorMessage}`;
-        }
-      }
-
-      // Submit the quiz - try multiple selector patterns
-      const submitButtonSelectors = [
-        ".th-challenge .th-button--success",
-        ".th-enhanced-quiz .submit-button",
-        ".th-quiz .submit-button",
-        "button.tds-button--primary",
-        ".challenge-quiz-submit",
-        'tds-button[type="submit"]',
-        "button.submit",
-      ];
-
-      let submitted = false;
-      for (const selector of submitButtonSelectors) {
-        try {
-          const submitButtonExists = await page.$(selector);
-        
-          if (submitButtonExists && await submitButtonExists.evaluate((el) => {
-            const button = el as HTMLButtonElement | HTMLInputElement;
-            return !button.disabled; // Only proceed if button is enabled (not disabled)
-          })) {
-            await page.click(selector);
-            submitted = true;
-            console.error(`Submitted quiz with selector: ${selector}`);
-            break;
-          }
-        } catch (error) {
-          console.error(
-            `Error with submit button selector ${selector}:`,
-            error,
-          );
+// Clicks the first enabled button whose text is one of the page locale's
+// labels for `key`. "showMore" buttons only need to start with a label.
+async function clickLabelledButton(page: Page, key: UiString, selector = "button"): Promise<boolean> {
+  const labels = uiStrings(await detectLocale(page), key);
+  return await page.$$eval(
+    selector,
+    (buttons, labels, prefix) => {
+      for (const button of buttons as HTMLButtonElement[]) {
+        const text = (button.textContent ?? "").replace(/[’‘]/g, "'").replace(/\s+/g, " ").trim().toLowerCase();
+        const matches = labels.some((label) => (prefix ? text.startsWith(label) : text === label));
+        if (matches && !button.disabled) {
+          button.click();
+          return true;
         }
       }
+      return false;
+    },
+    labels,
+    key === "showMore",
+  );
+}
 
-      if (!submitted) {
-        result =
-          "Could not find a submit button to click. Please check manually.";
-      } else {
-        // Wait for confirmation of completion
-        try {
-          await page.waitForSelector(".challenge-completed, .th-challenge-complete", {
-            timeout: 1000,
-          });
-          result = "Quiz completed successfully!";
+async function clickNextUnitButton(page: Page): Promise<boolean> {
+  const clicked = await clickLabelledButton(page, "nextUnit");
+  if (clicked) {
+    auditClick('"Tackle the next unit" button');
+  }
+  return clicked;
+}
 
-          // Look for the "Tackle the next unit" button specifically
-          try {
-            // Use $$eval to find and click the button by text content
-            const clicked = await page.$$eval('button', (buttons) => {
-              for (const button of buttons) {
-                if (button.textContent?.trim() === "Tackle the next unit") {
-                  button.click();
-                  return true;
-                }
-              }
-              return false;
-            });
-            
-            if (clicked) {
-              result = "Quiz completed successfully! Browser is navigating to next trailhead module page...";
-            } else {
-              result = "Quiz completed successfully!";
-            }
-          } catch (nextButtonError) {
-            // Don't fail the whole operation if next button doesn't work
-            console.error("Error clicking next button:", nextButtonError);
-            result = "Quiz completed successfully! (Note: Could not automatically navigate to next unit)";
-          }
-        } catch (error) {
-          result =
-            "Quiz was submitted, but couldn't confirm success. Please check manually.";
-        }
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      result = `Error: ${errorMessage}`;
-      console.error("Error in answer-quiz tool:", error);
+async function getPageTitle(page: Page): Promise<string> {
+  return (await page.title()).replace(/\s*\|\s*Salesforce Trailhead\s*$/, "");
+}
+
+let lastVisitedUrl: string | null = null;
+
+// Records a visit to the current unit in the progress ledger, once per
+// arrival. Ledger failures are logged and never fail the calling tool.
+async function recordVisit(page: Page): Promise<void> {
+  const url = normalizeUrl(page.url());
+  if (url === lastVisitedUrl || !parseTrailheadUrl(url)?.unitSlug) {
+    return;
+  }
+  lastVisitedUrl = url;
+  try {
+    await recordProgress({ type: "unit-visit", url, title: await getPageTitle(page) });
+  } catch (error) {
+    console.error("Error recording unit visit:", error);
+  }
+}
+
+async function recordQuizAttempt(
+  page: Page,
+  questions: QuizQuestion[],
+  answers: QuizAnswers,
+  result: QuizResult,
+): Promise<void> {
+  try {
+    const url = normalizeUrl(page.url());
+    const title = await getPageTitle(page);
+    // Keeps the questions and confirmed answers for study packs
+    await recordQuizQuestions(url, title, questions);
+    await recordConfirmedAnswers(url, answers, result);
+    await recordProgress({
+      type: "quiz-attempt",
+      url,
+      title,
+      attempt: result.attempt,
+      answers,
+      status: result.status,
+      pointsEarned: result.pointsEarned,
+      incorrectQuestionIds: result.incorrectQuestionIds,
+    });
+    if (result.badge) {
+      await recordProgress({ type: "badge", url, title, badge: result.badge });
     }
+  } catch (error) {
+    console.error("Error recording quiz attempt:", error);
+  }
+}
 
-    return createMcpResponse(result);
-  },
-);
-
-server.tool(
-  "goto-page",
-  "Navigate to a specific page",
-  {
-    url: z.string().url().describe("The URL to navigate to"),
-  },
-  async ({ url }) => {
-    const page = await getCurrentPage();
+// Submits the quiz, waits for Trailhead to grade it and reports the result
+// as JSON. Moves on to the next unit when the quiz passed.
+async function submitAndReadResult(
+  page: Page,
+  adapter: TrailheadPageAdapter,
+  questions: QuizQuestion[],
+  verification: SelectionVerification & { failures: string[] },
+  waits: WaitReport[],
+): Promise<McpResponse> {
+  const { selected: answers, failures: notes } = verification;
+  // Read before submitting, since a passed quiz moves on to the next unit
+  const locale = await detectLocale(page);
+  // Layouts without a "Try again" button keep the last attempt's markers
+  // until the new grading replaces them
+  const staleMarkers = await queryAll(page, "questionIncorrect", adapter.selectorsFor("questionIncorrect"));
+  const submitSelector = await adapter.submit(page);
+  if (!submitSelector) {
+    return createMcpError(
+      "SUBMIT_NOT_FOUND",
+      ["Could not find a submit button to click. Please check manually.", ...notes].join("\n"),
+    );
+  }
+
+  const key = unitKey(page);
+  quizAttempts.set(key, (quizAttempts.get(key) ?? 0) + 1);
+
+  // Wait for the completion banner or for questions to be marked wrong
+  const resultWaits = staleMarkers.length > 0
+    ? [await waitUntilReplaced("result", "questionIncorrect", staleMarkers)]
+    : [];
+  resultWaits.push(...(await waitUntilReady(page, "result")));
+  await Promise.all(staleMarkers.map((marker) => marker.dispose().catch(() => undefined)));
+  let message = elementsReady(resultWaits)
+    ? "Quiz was submitted."
+    : "Quiz was submitted, but couldn't confirm the result. Please check manually.";
+
+  const result = await adapter.readResult(page, questions, quizAttempts.get(key) ?? 1);
+  await recordQuizAttempt(page, questions, answers, result);
+  let navigatedToNextUnit = false;
+
+  if (result.status === "passed") {
+    message = "Quiz completed successfully!";
+    // Look for the "Tackle the next unit" button specifically
     try {
-      await page.goto(url, { waitUntil: "networkidle2" });
-      const title = await page.title();
-      return createMcpResponse(`Successfully navigated to: ${title}`);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      return createMcpError(`Error navigating to page: ${errorMessage}`);
+      navigatedToNextUnit = await clickNextUnitButton(page);
+      if (navigatedToNextUnit) {
+        message = "Quiz completed successfully! Browser is navigating to next trailhead module page...";
+      }
+    } catch (nextButtonError) {
+      // Don't fail the whole operation if next button doesn't work
+      console.error("Error clicking next button:", nextButtonError);
+      message = "Quiz completed successfully! (Note: Could not automatically navigate to next unit)";
     }
-  },
-);
-
-server.tool(
-  "debug-selector",
-  "Debug DOM selectors by testing them on the current page and returning detailed information about matching elements.",
-  {
-    selector: z.string().describe("The CSS selector or Puppeteer selector (including >>> for shadow DOM) to test"),
-    verbose: z.boolean().optional().describe("If true, returns more detailed information about matching elements"),
-  },
-  async ({ selector, verbose = false }) => {
-    const page = await getCurrentPage();
-    try {
-      // Test the selector and get detailed info about matching elements
-      const selectorInfo = await page.evaluate((sel: any, isVerbose: any) => {
-        const results: {
-          selector: string;
-          matchCount: number;
-          elements: any[];
-          error: string | null;
-        } = {
-          selector: sel,
-          matchCount: 0,
-          elements: [],
-          error: null
-        };
+  } else if (result.status === "failed") {
+    message = `${result.incorrectQuestionIds.length} question(s) were marked incorrect. Use retry-incorrect-questions to answer them again.`;
+  }
 
-        try {
-          // Try different selector methods
-          let elements = [];
-          // For shadow-piercing selectors (>>>) - use Puppeteer's method when available
-          if (sel.includes('>>>')) {
-            // For evaluation context, we'll try querySelector on document first
-            // Note: >>> is handled by Puppeteer, not browser's querySelector
-            try {
-              const normalizedSel = sel.replace(/>>>/g, '').trim();
-              elements = Array.from(document.querySelectorAll(normalizedSel));
-            } catch (e) {
-              results.error = `Shadow-piercing selector requires Puppeteer context: ${e}`;
-              return results;
-            }
-          } else {
-            // Regular CSS selector
-            elements = Array.from(document.querySelectorAll(sel));
-          }
+  return createStructuredResponse<QuizSubmission>({
+    submitted: true,
+    locale,
+    message,
+    notes,
+    submitSelector,
+    navigatedToNextUnit,
+    verification,
+    result,
+    pendingSubmissionId: null,
+    waits: [...waits, ...resultWaits],
+  });
+}
 
-          results.matchCount = elements.length;
-
-          // Get details for first few elements (limit to avoid overwhelming output)
-          const elementsToInspect = elements.slice(0, isVerbose ? 5 : 3);
-          results.elements = elementsToInspect.map((el: any, index: any) => {
-            const rect = el.getBoundingClientRect();
-            const computedStyle = window.getComputedStyle(el);
-            return {
-              index,
-              tagName: el.tagName.toLowerCase(),
-              id: el.id || null,
-              classes: Array.from(el.classList),
-              attributes: Array.from(el.attributes).reduce((acc: any, attr: any) => {
-                acc[attr.name] = attr.value;
-                return acc;
-              }, {}),
-              textContent: el.textContent?.trim().substring(0, 200) || null,
-              innerHTML: isVerbose ? el.innerHTML.substring(0, 300) : null,
-              visible: rect.width > 0 && rect.height > 0 && computedStyle.visibility !== 'hidden' && computedStyle.display !== 'none',
-              position: {
-                x: Math.round(rect.left),
-                y: Math.round(rect.top),
-                width: Math.round(rect.width),
-                height: Math.round(rect.height)
-              },
-              parent: el.parentElement ? {
-                tagName: el.parentElement.tagName.toLowerCase(),
-                id: el.parentElement.id || null,
-                classes: Array.from(el.parentElement.classList)
-              } : null
-            };
-          });
+interface PendingSubmission {
+  id: string;
+  page: Page;
+  // The unit the answers were selected on
+  url: string;
+  adapter: TrailheadPageAdapter;
+  questions: QuizQuestion[];
+  answers: QuizAnswers;
+  waits: WaitReport[];
+}
 
-          // If there are more elements, add a summary
-          if (elements.length > elementsToInspect.length) {
-            (results as any).additionalElements = elements.length - elementsToInspect.length;
-          }
-        } catch (error) {
-          results.error = error instanceof Error ? error.message : String(error);
-        }
-
-        return results;
-      }, selector, verbose);
-
-      // For shadow-piercing selectors, also try Puppeteer's $$ method
-      if (selector.includes('>>>')) {
-        try {
-          const puppeteerElements = await page.$$(selector);
-          (selectorInfo as any).puppeteerMatchCount = puppeteerElements.length;
-          if (puppeteerElements.length > 0 && selectorInfo.matchCount === 0) {
-            // Get info from Puppeteer elements if document.querySelector failed
-            const elementDetails = await Promise.all(
-              puppeteerElements.slice(0, verbose ? 5 : 3).map(async (el: any, index: any) => {
-                const tagName = await el.evaluate((e: any) => e.tagName.toLowerCase());
-                const id = await el.evaluate((e: any) => e.id);
-                const classes = await el.evaluate((e: any) => Array.from(e.classList));
-                const textContent = await el.evaluate((e: any) => e.textContent?.trim().substring(0, 200));
-                const boundingBox = await el.boundingBox();
-                return {
-                  index,
-                  tagName,
-                  id: id || null,
-                  classes,
-                  textContent: textContent || null,
-                  visible: !!boundingBox,
-                  position: boundingBox ? {
-                    x: Math.round(boundingBox.x),
-                    y: Math.round(boundingBox.y),
-                    width: Math.round(boundingBox.width),
-                    height: Math.round(boundingBox.height)
-                  } : null
-                };
-              })
-            );
-            selectorInfo.elements = elementDetails;
-            selectorInfo.matchCount = puppeteerElements.length;
-          }
-        } catch (puppeteerError) {
-          (selectorInfo as any).puppeteerError = puppeteerError instanceof Error ? puppeteerError.message : String(puppeteerError);
-        }
-      }
-
-      // Format the response
-      let response = `Selector Debug Results for: "${selector}"\n`;
-      response += `═══════════════════════════════════════════\n\n`;
-
-      if (selectorInfo.error) {
-        response += `❌ Error: ${selectorInfo.error}\n`;
-      } else {
-        response += `✅ Found ${selectorInfo.matchCount} matching element(s)\n`;
-        if ((selectorInfo as any).puppeteerMatchCount !== undefined) {
-          response += `   (Puppeteer shadow-piercing: ${(selectorInfo as any).puppeteerMatchCount} matches)\n`;
-        }
-
-        if (selectorInfo.matchCount > 0) {
-          response += `\n📋 Element Details:\n`;
-          response += `───────────────────\n`;
-          selectorInfo.elements.forEach((el: any, i: any) => {
-            response += `\n[${i + 1}] <${el.tagName}`;
-            if (el.id) response += ` id="${el.id}"`;
-            if (el.classes.length > 0) response += ` class="${el.classes.join(' ')}"`;
-            response += `>\n`;
-
-            if (el.textContent) {
-              response += `    📝 Text: "${el.textContent}"\n`;
-            }
-            response += `    👁️  Visible: ${el.visible ? '✅ YES' : '❌ NO'}\n`;
-            if (el.position) {
-              response += `    📍 Position: (${el.position.x}, ${el.position.y}) ${el.position.width}×${el.position.height}px\n`;
-            }
-            if (el.parent) {
-              response += `    ⬆️  Parent: <${el.parent.tagName}`;
-              if (el.parent.id) response += ` id="${el.parent.id}"`;
-              if (el.parent.classes.length > 0) response += ` class="${el.parent.classes.join(' ')}"`;
-              response += `>\n`;
-            }
-            if (verbose && el.innerHTML) {
-              response += `    🔍 HTML: ${el.innerHTML.replace(/\n/g, ' ')}\n`;
-            }
-            if (verbose && Object.keys(el.attributes).length > 0) {
-              response += `    🏷️  Attributes: ${JSON.stringify(el.attributes, null, 2)}\n`;
-            }
-          });
+// Answers waiting for confirm-submission or cancel-submission, for clients
+// that can't show a confirmation form, by the session that selected them
+const pendingSubmissions = new Map<string, PendingSubmission>();
 
-          if ((selectorInfo as any).additionalElements) {
-            response += `\n... and ${(selectorInfo as any).additionalElements} more element(s)\n`;
-          }
-        } else {
-          response += `\n💡 Suggestions:\n`;
-          response += `   • Try a broader selector\n`;
-          response += `   • Check if elements are in shadow DOM (use >>> syntax)\n`;
-          response += `   • Verify the page has loaded completely\n`;
-          response += `   • Use browser dev tools to inspect the DOM\n`;
-        }
-      }
+// The tool call a submission is confirmed for
+interface SubmissionContext {
+  server: McpServer;
+  sessionId: string;
+  extra: ToolExtra;
+}
+
+// How often a client waiting on the confirmation form hears that the call
+// is still running
+const CONFIRMATION_PROGRESS_INTERVAL_MS = 15_000;
+
+// Holds the selected answers until the human confirms or cancels them
+async function holdSubmission(
+  context: SubmissionContext,
+  page: Page,
+  adapter: TrailheadPageAdapter,
+  questions: QuizQuestion[],
+  verification: SelectionVerification & { failures: string[] },
+  waits: WaitReport[],
+  flagged: string[],
+): Promise<McpResponse> {
+  const id = randomUUID();
+  pendingSubmissions.set(context.sessionId, {
+    id,
+    page,
+    url: unitKey(page),
+    adapter,
+    questions,
+    answers: verification.selected,
+    waits,
+  });
+  return createStructuredResponse<QuizSubmission>({
+    submitted: false,
+    locale: await detectLocale(page),
+    message: [
+      `The answers need the user's approval before they are submitted. Show them these answers, then call confirm-submission with id "${id}" (and any answers they changed) once they approve, or cancel-submission.`,
+      "",
+      describeAnswers(questions, verification.selected, flagged),
+    ].join("\n"),
+    notes: verification.failures,
+    submitSelector: null,
+    navigatedToNextUnit: false,
+    verification,
+    result: null,
+    pendingSubmissionId: id,
+    waits,
+  });
+}
+
+// Shows the confirmation form, reporting progress while the human answers
+// it so clients that reset their timeout on progress keep waiting
+async function elicitConfirmation(context: SubmissionContext, params: ElicitRequest["params"]) {
+  const { server, extra } = context;
+  const progressToken = extra._meta?.progressToken;
+  const timeout = getConfirmationTimeout();
+  let waited = 0;
+  const heartbeat =
+    progressToken === undefined
+      ? undefined
+      : setInterval(() => {
+          waited += CONFIRMATION_PROGRESS_INTERVAL_MS;
+          extra
+            .sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress: waited, total: timeout, message: "Waiting for the user to confirm the answers" },
+            })
+            .catch((error) => console.error("Error reporting confirmation progress:", error));
+        }, CONFIRMATION_PROGRESS_INTERVAL_MS);
+  try {
+    return await server.server.elicitInput(params, { timeout, relatedRequestId: extra.requestId });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Submits the verified answers, first asking the human to approve them when
+// the confirmation policy says so. Clients without elicitation get a
+// pending submission instead. Other calls can use the browser while the
+// form is open, so the answers are selected again before submitting.
+async function confirmAndSubmit(
+  context: SubmissionContext,
+  page: Page,
+  adapter: TrailheadPageAdapter,
+  questions: QuizQuestion[],
+  verification: SelectionVerification & { failures: string[] },
+  waits: WaitReport[],
+  confidence?: AnswerConfidence,
+): Promise<McpResponse> {
+  // Answers selected since then replace any this session held
+  pendingSubmissions.delete(context.sessionId);
+  const flagged = questionsToConfirm(questions, confidence);
+  if (flagged.length === 0) {
+    return await submitAndReadResult(page, adapter, questions, verification, waits);
+  }
+  if (!context.server.server.getClientCapabilities()?.elicitation) {
+    return await holdSubmission(context, page, adapter, questions, verification, waits, flagged);
+  }
+
+  const proposed = verification.selected;
+  const url = unitKey(page);
+  let response;
+  try {
+    response = await withoutExclusive(() =>
+      elicitConfirmation(context, buildConfirmationRequest(questions, proposed, flagged)),
+    );
+  } catch (error) {
+    console.error("Error asking for confirmation, holding the submission instead:", error);
+    if (page.isClosed() || unitKey(page) !== url) {
+      return createMcpError("PAGE_CHANGED", "The page changed while waiting for confirmation. Answer the quiz again.");
+    }
+    return await holdSubmission(context, page, adapter, questions, verification, waits, flagged);
+  }
+
+  if (response.action !== "accept") {
+    return createStructuredResponse<QuizSubmission>({
+      submitted: false,
+      locale: await detectLocale(page),
+      message: `The user ${response.action === "decline" ? "declined" : "cancelled"} the submission; the answers were selected but the quiz was not submitted.`,
+      notes: verification.failures,
+      submitSelector: null,
+      navigatedToNextUnit: false,
+      verification,
+      result: null,
+      pendingSubmissionId: null,
+      waits,
+    });
+  }
+
+  const confirmed = readConfirmedAnswers(questions, proposed, response.content);
+  const problems = [...confirmed.problems, ...validateAnswers(questions, confirmed.answers)];
+  if (problems.length > 0) {
+    return createMcpError("ANSWERS_REJECTED", `Edited answers rejected:\n- ${problems.join("\n- ")}`, undefined, { problems });
+  }
+  if (page.isClosed() || unitKey(page) !== url) {
+    return createMcpError("PAGE_CHANGED", "The page changed while waiting for confirmation. Answer the quiz again.");
+  }
+
+  const reselected = await selectAndVerify(page, adapter, questions, confirmed.answers);
+  if (!reselected.verified) {
+    return createMcpError(
+      "SELECTION_NOT_VERIFIED",
+      `Refusing to submit, confirmed selection could not be verified (${describeVerificationFailure(reselected)})`,
+      undefined,
+      reselected,
+    );
+  }
+  const edited = changedQuestionIds(proposed, confirmed.answers);
+  if (edited.length > 0) {
+    reselected.failures.push(`The user changed the answers to: ${edited.join(", ")}`);
+  }
+  return await submitAndReadResult(page, adapter, questions, reselected, waits);
+}
+
+interface AnswerQuizParams {
+  answers?: QuizAnswers;
+  optionIds?: string[];
+  dryRun?: boolean;
+  confidence?: AnswerConfidence;
+}
+
+const confidenceSchema = z
+  .record(z.string(), z.number().min(0).max(1))
+  .optional()
+  .describe(
+    "Map of question ID to how sure you are of its answer, from 0 to 1. When the server asks for confirmation of low-confidence answers, questions without one count as low confidence",
+  );
+
+// Reads the outline of the module, project or trail at `overviewUrl`, or of
+// the one the current page belongs to. The overview page is loaded in a
+// background tab unless it is already the current page.
+async function getContentOutline(page: Page, overviewUrl?: string): Promise<ContentOutline> {
+  const location = parseTrailheadUrl(overviewUrl ?? page.url());
+  if (!location) {
+    throw new ToolError("OUTLINE_NOT_FOUND", "The page is not part of a Trailhead module, project or trail");
+  }
+
+  const onOverview = normalizeUrl(page.url()) === normalizeUrl(location.overviewUrl);
+  const outlinePage = onOverview ? page : await page.browser().newPage();
+
+  try {
+    if (!onOverview) {
+      await navigate(outlinePage, location.overviewUrl);
+    }
+
+    const links = await outlinePage.evaluate(collectOutlineLinks);
+    const heading = await outlinePage
+      .$eval("pierce/h1", (el) => el.textContent?.trim() ?? "")
+      .catch(() => "");
+    const title = heading || (await getPageTitle(outlinePage));
+
+    const outline = buildOutline(location.overviewUrl, title, links, page.url());
+    if (!outline || outline.units.length === 0) {
+      throw new ToolError("OUTLINE_NOT_FOUND", `Could not find any units on ${location.overviewUrl}`);
+    }
+    return outline;
+  } finally {
+    if (!onOverview) {
+      await outlinePage.close().catch(console.error);
+    }
+  }
+}
 
-      if ((selectorInfo as any).puppeteerError) {
-        response += `\n⚠️  Puppeteer Error: ${(selectorInfo as any).puppeteerError}\n`;
+// Clicks the button that loads the next batch of search results
+async function clickShowMoreButton(page: Page): Promise<boolean> {
+  const clicked = await clickLabelledButton(page, "showMore", "pierce/button");
+  if (clicked) {
+    auditClick('"Show more" button');
+  }
+  return clicked;
+}
+
+interface SearchPage {
+  query: string;
+  url: string;
+  locale: TrailheadLocale;
+  page: number;
+  pageSize: number;
+  results: SearchResult[];
+  hasMore: boolean;
+  // The search stopped clicking "Show more" before the page was filled, so
+  // `results` may be short even though the catalog has more
+  truncated: boolean;
+}
+
+// How many times one search clicks "Show more", each click loading one more
+// batch of results
+const MAX_SHOW_MORE_CLICKS = 10;
+
+// Runs a catalog search in a background tab, in the current page's
+// language. Further results are loaded with the search page's "Show more"
+// button until the requested page of filtered results is filled, the
+// catalog runs out or MAX_SHOW_MORE_CLICKS is reached.
+async function searchTrailhead(
+  query: string,
+  filters: SearchFilters,
+  pageNumber: number,
+  pageSize: number,
+): Promise<SearchPage> {
+  const locale = await detectLocale(await getCurrentPage());
+  const url = localizeUrl(buildSearchUrl(query), locale);
+  const searchPage = await (await getBrowser()).newPage();
+
+  try {
+    await navigate(searchPage, url);
+    const needed = pageNumber * pageSize;
+    const collect = async () => parseSearchResults(await searchPage.evaluate(collectOutlineLinks));
+
+    let all = await collect();
+    let exhausted = false;
+    let truncated = false;
+    for (let clicks = 0; filterSearchResults(all, filters).length <= needed; clicks++) {
+      if (clicks === MAX_SHOW_MORE_CLICKS) {
+        truncated = true;
+        break;
       }
+      if (!(await clickShowMoreButton(searchPage))) {
+        exhausted = true;
+        break;
+      }
+      await waitUntilReady(searchPage, "searchResults");
+      const more = await collect();
+      if (more.length === all.length) {
+        exhausted = true;
+        break;
+      }
+      all = more;
+    }
 
-      return createMcpResponse(response);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return createMcpError(`Error debugging selector: ${errorMessage}`);
+    const filtered = filterSearchResults(all, filters);
+    return {
+      query,
+      url,
+      locale,
+      page: pageNumber,
+      pageSize,
+      results: filtered.slice(needed - pageSize, needed),
+      hasMore: filtered.length > needed || !exhausted,
+      truncated: truncated && filtered.length < needed,
+    };
+  } finally {
+    await searchPage.close().catch(console.error);
+  }
+}
+
+interface TabInfo {
+  index: number;
+  title: string;
+  url: string;
+  trailhead: boolean;
+  current: boolean;
+  pinned: boolean;
+}
+
+async function listTabs(): Promise<{ pages: Page[]; tabs: TabInfo[] }> {
+  const pages = (await (await getBrowser()).pages()).filter((page) => !page.isClosed());
+  const tabs = await Promise.all(
+    pages.map(async (page, index) => {
+      const url = page.url();
+      return {
+        index,
+        title: await page.title().catch(() => ""),
+        url,
+        trailhead: isTrailheadUrl(url),
+        current: page === currentPage,
+        pinned: page === pinnedPage,
+      };
+    }),
+  );
+  return { pages, tabs };
+}
+
+async function gotoAdjacentUnit(offset: 1 | -1): Promise<McpResponse> {
+  const page = await getCurrentPage();
+  if (!isTrailheadUrl(page.url())) {
+    return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+  }
+
+  try {
+    const outline = await getContentOutline(page);
+    if (outline.currentIndex === null) {
+      return createMcpError("OUTLINE_NOT_FOUND", `The current page is not one of the units of "${outline.title}"`);
     }
-  },
-);
+
+    const target = outline.units[outline.currentIndex + offset];
+    if (!target) {
+      return createMcpResponse(
+        offset > 0
+          ? `This is the last unit of "${outline.title}".`
+          : `This is the first unit of "${outline.title}".`,
+      );
+    }
+
+    await navigate(page, target.url);
+    await recordVisit(page);
+    return createMcpResponse(
+      `Successfully navigated to unit ${target.index + 1} of ${outline.units.length}: ${target.title}`,
+    );
+  } catch (error) {
+    return createMcpError("NAVIGATION_FAILED", "Error navigating to unit", error);
+  }
+}
 
 async function validatePage(page: Page): Promise<boolean> {
   try {
@@ -591,7 +874,7 @@ async function findActivePage(browser: Browser): Promise<Page> {
   for (const page of validPages) {
     try {
       const url = page.url();
-      if (url.includes('my.trailhead.com') || url.includes('trailhead.salesforce.com')) {
+      if (isTrailheadUrl(url)) {
         trailheadPages.push(page);
       }
     } catch (error) {
@@ -614,7 +897,7 @@ async function findActivePage(browser: Browser): Promise<Page> {
         return 'unknown';
       }
     }));
-    throw new Error(`Multiple Trailhead tabs are open (${trailheadPages.length} found). Please close all but one Trailhead tab and try again. Open tabs: ${urls.join(', ')}`);
+    throw new ToolError("MULTIPLE_TABS", `Multiple Trailhead tabs are open (${trailheadPages.length} found). Use list-tabs and select-tab to choose one, or close all but one Trailhead tab and try again. Open tabs: ${urls.join(', ')}`);
   }
 
   // No Trailhead pages found, fall back to original behavior
@@ -645,21 +928,99 @@ async function findActivePage(browser: Browser): Promise<Page> {
   return firstPage;
 }
 
+async function getBrowser(): Promise<Browser> {
+  // Initialize browser if needed, or reconnect after the old one went away
+  if (!browser || !browser.connected) {
+    const connected = await setupBrowserConnection();
+    connected.once("disconnected", () => {
+      if (browser === connected) {
+        console.error("Browser disconnected; will reconnect on the next tool call");
+        browser = null;
+        currentPage = null;
+        pinnedPage = null;
+      }
+    });
+    browser = connected;
+  }
+  return browser;
+}
+
+// Makes `page` the target of every tool until it is closed or another tab
+// is selected
+function pinPage(page: Page): void {
+  pinnedPage = page;
+  currentPage = page;
+  page.once("close", () => {
+    if (pinnedPage === page) {
+      console.error("Pinned tab was closed");
+      pinnedPage = null;
+    }
+  });
+}
+
+// Called with the new URL when the tracked page navigates, or when a
+// different tab becomes the tracked page
+const navigationListeners = new Set<(url: string) => void>();
+const watchedPages = new WeakSet<Page>();
+let trackedPage: Page | null = null;
+let navigationTimer: ReturnType<typeof setTimeout> | null = null;
+
+function onTrackedPageNavigated(listener: (url: string) => void): () => void {
+  navigationListeners.add(listener);
+  return () => navigationListeners.delete(listener);
+}
+
+// Coalesces the bursts of frame navigations a single-page app produces
+function notifyNavigation(page: Page): void {
+  if (navigationTimer) {
+    clearTimeout(navigationTimer);
+  }
+  navigationTimer = setTimeout(() => {
+    navigationTimer = null;
+    const url = page.url();
+    for (const listener of navigationListeners) {
+      listener(url);
+    }
+  }, 300);
+}
+
+function trackPage(page: Page): Page {
+  if (!watchedPages.has(page)) {
+    watchedPages.add(page);
+    page.on("framenavigated", (frame) => {
+      if (frame === page.mainFrame() && page === trackedPage) {
+        notifyNavigation(page);
+      }
+    });
+  }
+  if (trackedPage !== page) {
+    trackedPage = page;
+    notifyNavigation(page);
+  }
+  return page;
+}
+
 async function getCurrentPage(): Promise<Page> {
-  // Initialize browser if needed
-  if (!browser) {
-    browser = await setupBrowserConnection();
+  const browser = await getBrowser();
+
+  // A tab selected with select-tab or open-tab wins while it is open
+  if (pinnedPage) {
+    if (!pinnedPage.isClosed() && await validatePage(pinnedPage)) {
+      currentPage = pinnedPage;
+      return trackPage(pinnedPage);
+    }
+    pinnedPage = null;
   }
 
   // Check if current page is still valid
   if (currentPage && await validatePage(currentPage)) {
-    return currentPage;
+    return trackPage(currentPage);
   }
 
   // Find and cache a new page
   console.error("Current page invalid or not set, finding best available page...");
   currentPage = await findActivePage(browser);
-  return currentPage;
+  return trackPage(currentPage);
 }
 
 async function isTrailheadPage(): Promise<boolean> {
@@ -668,12 +1029,12 @@ async function isTrailheadPage(): Promise<boolean> {
     const url = page.url();
     
     // Check if URL is a Trailhead domain
-    if (!url.includes('trailhead.salesforce.com') && !url.includes('my.trailhead.com')) {
+    if (!isTrailheadUrl(url)) {
       return false;
     }
     
     // Check if page has Trailhead content structure
-    const hasTrailheadContent = await page.$('article > div.unit-content');
+    const hasTrailheadContent = await queryFirst(page, "unitContent");
     return !!hasTrailheadContent;
   } catch (error) {
     console.error("Error checking if page is Trailhead page:", error);
@@ -681,20 +1042,1373 @@ async function isTrailheadPage(): Promise<boolean> {
   }
 }
 
-const TRAILHEAD_ERROR_MESSAGE = "Please navigate to a Salesforce Trailhead learning module page (trailhead.salesforce.com or my.trailhead.com) and sign in to your Salesforce account. This tool only works on Trailhead learning content pages.";
+const TRAILHEAD_ERROR_MESSAGE = "Please navigate to a Salesforce Trailhead learning module page (trailhead.salesforce.com or my.trailhead.com, in any language) and sign in to your Salesforce account. This tool only works on Trailhead learning content pages.";
+
+// Tool calls from every connected client drive the same browser, so they
+// run one at a time
+let toolQueue: Promise<void> = Promise.resolve();
+// Lets the next call in the queue run; set while a call holds the browser
+let releaseBrowser: (() => void) | null = null;
+
+// Resolves with the release function once every earlier call has released
+function acquireBrowser(): Promise<() => void> {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const acquired = toolQueue.then(() => release);
+  toolQueue = toolQueue.then(() => released);
+  return acquired;
+}
+
+async function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  releaseBrowser = await acquireBrowser();
+  try {
+    return await task();
+  } finally {
+    const release = releaseBrowser;
+    releaseBrowser = null;
+    release?.();
+  }
+}
+
+// Lets other calls use the browser while the running call waits on
+// something else, such as the human, and queues for it again afterwards.
+// Only call this from inside runExclusive.
+async function withoutExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const release = releaseBrowser;
+  releaseBrowser = null;
+  release?.();
+  try {
+    return await task();
+  } finally {
+    releaseBrowser = await acquireBrowser();
+  }
+}
+
+// Tools that submit quiz answers or check challenges on the signed-in
+// account, which replay-session only re-runs when asked to
+const SUBMITTING_TOOLS = new Set([
+  "answer-trail-quiz",
+  "retry-incorrect-questions",
+  "confirm-submission",
+  "check-hands-on-challenge",
+]);
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ToolHandler<Args> = (args: Args, extra: ToolExtra) => Promise<McpResponse>;
+
+// Creates an MCP server with every tool registered. Each stdio connection
+// or HTTP session gets its own server instance; they share one browser.
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "trailhead-mcp",
+    version: "1.0.0",
+  });
+
+  const sessionId = randomUUID();
+  // Audited callbacks by tool name, for replay-session to call directly with
+  // logged arguments
+  const toolCallbacks = new Map<string, ToolHandler<unknown>>();
+  const currentUrl = () => (currentPage && !currentPage.isClosed() ? currentPage.url() : null);
+
+  // Records every call of the tool in the audit log and routes it through
+  // runExclusive. Errors the callback lets escape are still reported in the
+  // error envelope.
+  const exclusive = <Args>(name: string, callback: ToolHandler<Args>): ToolHandler<Args> => {
+    const auditedCallback: ToolHandler<Args> = (toolArgs, extra) =>
+      audited({ sessionId, tool: name, args: toolArgs }, currentUrl, () => callback(toolArgs, extra));
+    toolCallbacks.set(name, auditedCallback as ToolHandler<unknown>);
+    return (toolArgs, extra) =>
+      runExclusive(() => auditedCallback(toolArgs, extra)).catch((error) =>
+        createMcpError("INTERNAL_ERROR", `Error running ${name}`, error),
+      );
+  };
+
+  // The SDK's callback type is conditional on the schema, so the callbacks
+  // are only checked against it at each registration
+  const tool = <Shape extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Shape,
+    callback: ToolCallback<Shape>,
+  ) =>
+    server.tool(
+      name,
+      description,
+      paramsSchema,
+      exclusive(name, callback as ToolHandler<unknown>) as ToolCallback<Shape>,
+    );
+
+  // Tools with an output schema
+  const registerTool = <InputShape extends ZodRawShape, OutputShape extends ZodRawShape>(
+    name: string,
+    config: { description: string; inputSchema: InputShape; outputSchema: OutputShape },
+    callback: ToolCallback<InputShape>,
+  ) =>
+    server.registerTool(
+      name,
+      config,
+      exclusive(name, callback as ToolHandler<unknown>) as ToolCallback<InputShape>,
+    );
+
+  registerTool(
+    "get-current-trail-content",
+    {
+      description:
+        "Get the current salesforce trailhead page's content as Markdown (headings, lists, code blocks, tables, links, image alt text and Note/Tip callouts are preserved). The answers to the quizzes will be based on this content.",
+      inputSchema: {
+        format: z
+          .enum(["markdown", "text"])
+          .optional()
+          .describe("Output format: structured Markdown (default) or flattened plain text"),
+        includeOutline: z
+          .boolean()
+          .optional()
+          .describe("If true, also returns an outline of the unit's section headings"),
+      },
+      outputSchema: unitContentOutputShape,
+    },
+    async ({ format = "markdown", includeOutline = false }) => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      const page = await getCurrentPage();
+      await recordVisit(page);
+      const unit = { url: page.url(), title: await getPageTitle(page), locale: await detectLocale(page), format };
+      // Tells clients that only read text which language the material is in
+      const withLocaleNote = (response: McpResponse) => {
+        if (unit.locale !== "en") {
+          response.content.push({ type: "text", text: `Locale: ${unit.locale}` });
+        }
+        return response;
+      };
+
+      if (format === "text") {
+        const contentEl = await queryFirst(page, "unitContent");
+        if (!contentEl) {
+          return createMcpError("CONTENT_NOT_FOUND", "Could not find the unit content on this page");
+        }
+        const content = await contentEl.evaluate((el) => el.textContent?.trim() ?? "");
+        return {
+          ...withLocaleNote(createMcpResponse(content)),
+          structuredContent: { ...unit, content } satisfies UnitContent,
+        };
+      }
+
+      try {
+        const { markdown, outline } = await readUnitMarkdown(page);
+        const response = withLocaleNote(createMcpResponse(markdown));
+        if (includeOutline) {
+          response.content.push({ type: "text", text: formatOutline(outline) });
+        }
+        const structured: UnitContent = { ...unit, content: markdown, ...(includeOutline && { outline }) };
+        return { ...response, structuredContent: structured };
+      } catch (error) {
+        return createMcpError("CONTENT_NOT_FOUND", "Error converting unit content to Markdown", error);
+      }
+    },
+  );
+
+  tool(
+    "search-learned-content",
+    "Search the content of every unit read so far for passages relevant to a question, e.g. a quiz question. Returns the best-matching sections with the unit and heading they come from, to cite when answering.",
+    {
+      query: z.string().describe("The question or keywords to search for"),
+      limit: z.number().int().positive().max(20).optional().describe("Number of passages to return (default 5)"),
+      currentModuleOnly: z
+        .boolean()
+        .optional()
+        .describe("Only search units of the module, project or trail the current page belongs to"),
+    },
+    async ({ query, limit = 5, currentModuleOnly = false }) => {
+      try {
+        let urlPrefix: string | undefined;
+        if (currentModuleOnly) {
+          const location = parseTrailheadUrl((await getCurrentPage()).url());
+          if (!location) {
+            return createMcpError("OUTLINE_NOT_FOUND", "The current page is not part of a Trailhead module, project or trail");
+          }
+          urlPrefix = normalizeUrl(location.overviewUrl);
+        }
+
+        const { unitsSearched, passages } = await searchKnowledge(query, { limit, urlPrefix });
+        if (unitsSearched === 0) {
+          return createMcpResponse(
+            `No unit content has been indexed yet. Units are added to ${getKnowledgeFile()} when their content is read.`,
+          );
+        }
+        return createMcpResponse(
+          JSON.stringify(
+            {
+              query,
+              unitsSearched,
+              passages: passages.map((passage) => ({
+                ...passage,
+                citation: `[${passage.rank}] ${passage.unitTitle}${passage.heading ? ` › ${passage.heading}` : ""} (${passage.url})`,
+              })),
+            },
+            null,
+            2,
+          ),
+        );
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error searching learned content", error);
+      }
+    },
+  );
+
+  registerTool(
+    "get-trail-quiz-questions",
+    {
+      description: "Get the current pages quiz questions as a JSON string",
+      inputSchema: {},
+      outputSchema: quizStructureOutputShape,
+    },
+    async () => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      await recordVisit(await getCurrentPage());
+      return await getQuestionJson();
+    },
+  );
+
+  registerTool(
+    "answer-trail-quiz",
+    {
+      description:
+        "Submit answers to the quiz as a map of question ID to option IDs. Single-choice and true/false questions take exactly one option; multiple-choice questions take between their minSelections and maxSelections. Every question must be answered: the selection is read back from the page and nothing is submitted unless it matches. Returns the graded result as JSON, including which questions were marked incorrect. It is important that you use the current trailhead pages content, and think very very carefully to select the right option answer(s) for each quiz question before calling this.",
+      inputSchema: {
+        answers: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe(
+            "Map of question ID (from get-trail-quiz-questions) to the option IDs to select for that question, based on the trailhead pages content",
+          ),
+        optionIds: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Deprecated: flat array of option IDs to select. Prefer `answers`; each ID is matched to the question that owns it",
+          ),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe(
+            "If true, selects the answers and reports the checked state of every question without submitting",
+          ),
+        confidence: confidenceSchema,
+      },
+      outputSchema: quizSubmissionOutputShape,
+    },
+    async (params: AnswerQuizParams, extra) => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      const page = await getCurrentPage();
+
+      if (!params.answers && !params.optionIds) {
+        return createMcpError("INVALID_ARGUMENTS", "Provide `answers` (question ID to option IDs) or `optionIds`");
+      }
+
+      try {
+        const adapter = await getPageAdapter(page);
+        const { questions, waits } = await adapter.extractQuiz(page);
+        if (questions.length === 0) {
+          return createMcpError("QUIZ_NOT_FOUND", "Could not find quiz questions", undefined, { waits });
+        }
+
+        const answers: QuizAnswers = { ...params.answers };
+        const unknownOptionIds: string[] = [];
+        const problems: string[] = [];
+        if (params.optionIds) {
+          const grouped = groupOptionIds(questions, params.optionIds);
+          for (const [questionId, optionIds] of Object.entries(grouped.answers)) {
+            answers[questionId] = [...(answers[questionId] ?? []), ...optionIds];
+          }
+          unknownOptionIds.push(...grouped.unknownOptionIds);
+          problems.push(...grouped.unknownOptionIds.map((id) => `Unknown option ID "${id}"`));
+        }
+        problems.push(...validateAnswers(questions, answers));
+        if (problems.length > 0 && !params.dryRun) {
+          return createMcpError("ANSWERS_REJECTED", `Answers rejected:\n- ${problems.join("\n- ")}`, undefined, { problems });
+        }
+
+        // extractQuiz has already expanded the challenge
+        const verification = await selectAndVerify(page, adapter, questions, answers, unknownOptionIds);
+
+        if (params.dryRun) {
+          return createStructuredResponse<QuizSubmission>({
+            submitted: false,
+            locale: await detectLocale(page),
+            message: "Dry run: answers were selected but the quiz was not submitted.",
+            notes: problems,
+            submitSelector: null,
+            navigatedToNextUnit: false,
+            verification,
+            result: null,
+            pendingSubmissionId: null,
+            waits,
+          });
+        }
+
+        if (!verification.verified) {
+          return createMcpError(
+            "SELECTION_NOT_VERIFIED",
+            `Refusing to submit, selection could not be verified (${describeVerificationFailure(verification)})`,
+            undefined,
+            verification,
+          );
+        }
+
+        return await confirmAndSubmit(
+          { server, sessionId, extra },
+          page,
+          adapter,
+          questions,
+          verification,
+          waits,
+          params.confidence,
+        );
+      } catch (error) {
+        console.error("Error in answer-quiz tool:", error);
+        return createMcpError("INTERNAL_ERROR", "Error answering quiz", error);
+      }
+    },
+  );
+
+  registerTool(
+    "retry-incorrect-questions",
+    {
+      description:
+        "After answer-trail-quiz reports incorrect questions, answer only those questions again and resubmit, without reloading the page. Questions that were already correct are left untouched.",
+      inputSchema: {
+        answers: z
+          .record(z.string(), z.array(z.string()))
+          .describe(
+            "Map of question ID to the new option IDs, with one entry for every question currently marked incorrect",
+          ),
+        confidence: confidenceSchema,
+      },
+      outputSchema: quizSubmissionOutputShape,
+    },
+    async ({ answers, confidence }, extra) => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      const page = await getCurrentPage();
+
+      try {
+        const adapter = await getPageAdapter(page);
+        const { questions, waits } = await adapter.extractQuiz(page);
+        if (questions.length === 0) {
+          return createMcpError("QUIZ_NOT_FOUND", "Could not find quiz questions", undefined, { waits });
+        }
+
+        const current = await adapter.readResult(page, questions, quizAttempts.get(unitKey(page)) ?? 1);
+        if (current.status === "passed") {
+          return createMcpError("QUIZ_NOT_RETRYABLE", "This quiz has already been passed");
+        }
+        if (current.incorrectQuestionIds.length === 0) {
+          return createMcpError("QUIZ_NOT_RETRYABLE", "No questions are marked incorrect. Use answer-trail-quiz to submit the quiz first.");
+        }
+
+        const incorrect = new Set(current.incorrectQuestionIds);
+        const problems = [
+          ...Object.keys(answers)
+            .filter((id) => !incorrect.has(id))
+            .map((id) => `Question "${id}" is not marked incorrect`),
+          ...current.incorrectQuestionIds
+            .filter((id) => !answers[id])
+            .map((id) => `Missing answer for incorrect question "${id}"`),
+          ...validateAnswers(questions, answers),
+        ];
+        if (problems.length > 0) {
+          return createMcpError("ANSWERS_REJECTED", `Answers rejected:\n- ${problems.join("\n- ")}`, undefined, { problems });
+        }
+
+        // Some quiz layouts lock the form until "Try Again" is clicked, which
+        // can clear every answer, so remember the ones that were correct
+        const kept = await adapter.readSelectedAnswers(page, questions);
+        for (const id of incorrect) {
+          delete kept[id];
+        }
+
+        const reset = await clickLabelledButton(page, "tryAgain");
+        if (reset) {
+          auditClick("quiz retry button");
+          console.error("Clicked quiz retry button");
+        }
+
+        const verification = await selectAndVerify(page, adapter, questions, { ...kept, ...answers });
+        if (!verification.verified) {
+          return createMcpError(
+            "SELECTION_NOT_VERIFIED",
+            `Refusing to submit, selection could not be verified (${describeVerificationFailure(verification)})`,
+            undefined,
+            verification,
+          );
+        }
+        return await confirmAndSubmit(
+          { server, sessionId, extra },
+          page,
+          adapter,
+          questions,
+          verification,
+          waits,
+          confidence,
+        );
+      } catch (error) {
+        console.error("Error in retry-incorrect-questions tool:", error);
+        return createMcpError("INTERNAL_ERROR", "Error retrying quiz", error);
+      }
+    },
+  );
+
+  registerTool(
+    "confirm-submission",
+    {
+      description:
+        "Submit answers that answer-trail-quiz or retry-incorrect-questions held for the user's approval. Only call this after showing the user the held answers and getting their approval; pass any answers they changed.",
+      inputSchema: {
+        id: z.string().describe("The pendingSubmissionId of the held answers"),
+        answers: z
+          .record(z.string(), z.array(z.string()))
+          .optional()
+          .describe("Map of question ID to option IDs for the questions the user changed; the rest keep the held answers"),
+      },
+      outputSchema: quizSubmissionOutputShape,
+    },
+    async ({ id, answers }) => {
+      const pending = pendingSubmissions.get(sessionId);
+      if (!pending || pending.id !== id) {
+        return createMcpError("NO_PENDING_SUBMISSION", `No answers are held with id "${id}"`);
+      }
+      pendingSubmissions.delete(sessionId);
+      if (pending.page.isClosed() || unitKey(pending.page) !== pending.url) {
+        return createMcpError("PAGE_CHANGED", "The page has changed since the answers were held. Answer the quiz again.");
+      }
+
+      try {
+        const { page, adapter, questions, waits } = pending;
+        const confirmed = { ...pending.answers, ...answers };
+        const problems = validateAnswers(questions, confirmed);
+        if (problems.length > 0) {
+          return createMcpError("ANSWERS_REJECTED", `Answers rejected:\n- ${problems.join("\n- ")}`, undefined, { problems });
+        }
+
+        // Selected again, in case the page was touched while they were held
+        const verification = await selectAndVerify(page, adapter, questions, confirmed);
+        if (!verification.verified) {
+          return createMcpError(
+            "SELECTION_NOT_VERIFIED",
+            `Refusing to submit, selection could not be verified (${describeVerificationFailure(verification)})`,
+            undefined,
+            verification,
+          );
+        }
+        const edited = changedQuestionIds(pending.answers, confirmed);
+        if (edited.length > 0) {
+          verification.failures.push(`The user changed the answers to: ${edited.join(", ")}`);
+        }
+        return await submitAndReadResult(page, adapter, questions, verification, waits);
+      } catch (error) {
+        console.error("Error in confirm-submission tool:", error);
+        return createMcpError("INTERNAL_ERROR", "Error submitting held answers", error);
+      }
+    },
+  );
+
+  tool(
+    "cancel-submission",
+    "Discard answers held for the user's approval without submitting the quiz. The answers stay selected on the page.",
+    {
+      id: z.string().describe("The pendingSubmissionId of the held answers"),
+    },
+    async ({ id }) => {
+      if (pendingSubmissions.get(sessionId)?.id !== id) {
+        return createMcpError("NO_PENDING_SUBMISSION", `No answers are held with id "${id}"`);
+      }
+      pendingSubmissions.delete(sessionId);
+      return createMcpResponse("Held answers discarded; the quiz was not submitted.");
+    },
+  );
+
+  tool(
+    "get-hands-on-challenge",
+    "Read the current unit's hands-on challenge: its requirements as a checklist (with the object, field and class names each one mentions), the playground org the check will run against, and whether the challenge is already complete.",
+    {},
+    async () => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      const page = await getCurrentPage();
+      try {
+        const challenge = await readHandsOnChallenge(page);
+        if (challenge.requirements.length === 0 && !challenge.checkButtonFound) {
+          return createMcpError("CHALLENGE_NOT_FOUND", "Could not find a hands-on challenge on this page");
+        }
+        return createMcpResponse(JSON.stringify(challenge, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error reading the hands-on challenge", error);
+      }
+    },
+  );
+
+  tool(
+    "check-hands-on-challenge",
+    "Click \"Check Challenge\" for the current unit's hands-on challenge and wait for Trailhead to verify the work in the connected org. Returns pass/fail with Trailhead's error message, so the work can be fixed and checked again.",
+    {
+      timeoutSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(600)
+        .optional()
+        .describe("How long to wait for the check to finish (default 120)"),
+    },
+    async ({ timeoutSeconds = 120 }) => {
+      if (!(await isTrailheadPage())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      const page = await getCurrentPage();
+      try {
+        const { org } = await readHandsOnChallenge(page);
+        const result = await checkChallenge(page, timeoutSeconds);
+        await recordProgress({
+          type: "challenge-check",
+          url: normalizeUrl(page.url()),
+          title: await getPageTitle(page),
+          status: result.status,
+          pointsEarned: result.pointsEarned,
+        }).catch((error) => console.error("Error recording challenge check:", error));
+        return createMcpResponse(JSON.stringify({ org: org.connected, ...result }, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error checking the hands-on challenge", error);
+      }
+    },
+  );
+
+  tool(
+    "goto-page",
+    "Navigate to a specific page",
+    {
+      url: z.string().url().describe("The URL to navigate to"),
+    },
+    async ({ url }) => {
+      const page = await getCurrentPage();
+      try {
+        await navigate(page, url);
+        await recordVisit(page);
+        const title = await page.title();
+        return createMcpResponse(`Successfully navigated to: ${title}`);
+      } catch (error) {
+        return createMcpError("NAVIGATION_FAILED", "Error navigating to page", error);
+      }
+    },
+  );
+
+  tool(
+    "search-trailhead",
+    "Search the Trailhead catalog for modules, trails, projects and superbadges. Returns result cards with type, title, URL, duration, level, points and completion status. Pass `open` to navigate the current tab to one of the returned results.",
+    {
+      query: z.string().describe("Search keywords"),
+      types: z
+        .array(z.enum(["module", "trail", "project", "superbadge"]))
+        .optional()
+        .describe("Only return results of these types"),
+      levels: z
+        .array(z.enum(["Beginner", "Intermediate", "Advanced"]))
+        .optional()
+        .describe("Only return results at these levels"),
+      completed: z
+        .boolean()
+        .optional()
+        .describe("true for only completed results, false to leave completed results out"),
+      page: z.number().int().positive().optional().describe("Page of results to return (default 1)"),
+      pageSize: z.number().int().positive().max(50).optional().describe("Results per page (default 10)"),
+      open: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Index of a result on this page to open in the current tab"),
+    },
+    async ({ query, types, levels, completed, page: pageNumber = 1, pageSize = 10, open }) => {
+      try {
+        const search = await searchTrailhead(query, { types, levels, completed }, pageNumber, pageSize);
+
+        if (open === undefined) {
+          return createMcpResponse(JSON.stringify(search, null, 2));
+        }
+
+        const target = search.results.find((result) => result.index === open);
+        if (!target) {
+          return createMcpError("NOT_FOUND", `No result with index ${open} on page ${pageNumber} of the results`);
+        }
+        const page = await getCurrentPage();
+        await navigate(page, target.url);
+        return createMcpResponse(`Opened ${target.type} "${target.title}" (${target.url})`);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error searching Trailhead", error);
+      }
+    },
+  );
+
+  tool(
+    "list-tabs",
+    "List the open browser tabs as JSON with index, title, URL, whether each is a Trailhead page and which tab the tools currently act on.",
+    {},
+    async () => {
+      try {
+        const { tabs } = await listTabs();
+        return createMcpResponse(JSON.stringify(tabs, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error listing tabs", error);
+      }
+    },
+  );
+
+  tool(
+    "select-tab",
+    "Make a tab the target of all tools. The selection is kept until the tab is closed or another tab is selected.",
+    {
+      index: z.number().int().optional().describe("Tab index from list-tabs"),
+      urlContains: z.string().optional().describe("Select the first tab whose URL contains this text"),
+    },
+    async ({ index, urlContains }) => {
+      if (index === undefined && !urlContains) {
+        return createMcpError("INVALID_ARGUMENTS", "Provide `index` or `urlContains`");
+      }
+      try {
+        const { pages, tabs } = await listTabs();
+        const tab = index !== undefined
+          ? tabs.find((t) => t.index === index)
+          : tabs.find((t) => t.url.includes(urlContains!));
+        if (!tab) {
+          return createMcpError("TAB_NOT_FOUND", "No matching tab", undefined, { tabs });
+        }
+
+        const page = pages[tab.index];
+        pinPage(page);
+        await page.bringToFront();
+        return createMcpResponse(`Selected tab ${tab.index}: ${tab.title} (${tab.url})`);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error selecting tab", error);
+      }
+    },
+  );
+
+  tool(
+    "open-tab",
+    "Open a new browser tab, optionally at a URL, and make it the target of all tools",
+    {
+      url: z.string().url().optional().describe("The URL to open"),
+    },
+    async ({ url }) => {
+      try {
+        const page = await (await getBrowser()).newPage();
+        pinPage(page);
+        if (url) {
+          await navigate(page, url);
+          await recordVisit(page);
+        }
+        await page.bringToFront();
+        return createMcpResponse(`Opened new tab${url ? `: ${await page.title()}` : ""}`);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error opening tab", error);
+      }
+    },
+  );
+
+  tool(
+    "close-tab",
+    "Close a browser tab. Closing the selected tab clears the selection.",
+    {
+      index: z.number().int().optional().describe("Tab index from list-tabs. Defaults to the current tab"),
+    },
+    async ({ index }) => {
+      try {
+        const { pages, tabs } = await listTabs();
+        const tab = index !== undefined ? tabs.find((t) => t.index === index) : tabs.find((t) => t.current);
+        if (!tab) {
+          return createMcpError("TAB_NOT_FOUND", "No matching tab", undefined, { tabs });
+        }
+
+        const page = pages[tab.index];
+        if (page === pinnedPage) {
+          pinnedPage = null;
+        }
+        if (page === currentPage) {
+          currentPage = null;
+        }
+        await page.close();
+        return createMcpResponse(`Closed tab ${tab.index}: ${tab.title} (${tab.url})`);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error closing tab", error);
+      }
+    },
+  );
+
+  tool(
+    "get-module-outline",
+    "Get the outline of the current Trailhead module, project or trail as JSON: its title and the ordered list of units with URL, estimated time, points and completion status. The current unit is flagged.",
+    {
+      url: z
+        .string()
+        .url()
+        .optional()
+        .describe("Overview URL of a module, project or trail. Defaults to the one the current page belongs to"),
+    },
+    async ({ url }) => {
+      const page = await getCurrentPage();
+      if (!isTrailheadUrl(url ?? page.url())) {
+        return createMcpError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+      }
+      try {
+        const outline = await getContentOutline(page, url);
+        return createMcpResponse(JSON.stringify(outline, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error reading module outline", error);
+      }
+    },
+  );
+
+  tool(
+    "goto-next-unit",
+    "Navigate to the next unit of the current Trailhead module or project",
+    {},
+    async () => await gotoAdjacentUnit(1),
+  );
+
+  tool(
+    "goto-previous-unit",
+    "Navigate to the previous unit of the current Trailhead module or project",
+    {},
+    async () => await gotoAdjacentUnit(-1),
+  );
+
+  tool(
+    "get-profile-summary",
+    "Summarize the signed-in user's Trailblazer profile as JSON: rank, points, badge count, recent badges with dates, modules and trails in progress, and superbadges.",
+    {
+      profileUrl: z
+        .string()
+        .url()
+        .refine(isTrailheadUrl, "Must be a Trailhead profile URL")
+        .optional()
+        .describe("Profile page to read (default the signed-in user's, via trailhead.salesforce.com/me)"),
+      recentBadges: z.number().int().positive().optional().describe("How many recent badges to list (default 10)"),
+    },
+    async ({ profileUrl = PROFILE_URL, recentBadges = 10 }) => {
+      const page = await getCurrentPage();
+      // Read the profile in a background tab, unless it is already open
+      const onProfile = profileUrl !== PROFILE_URL && normalizeUrl(page.url()) === normalizeUrl(profileUrl);
+      const profilePage = onProfile ? page : await page.browser().newPage();
+
+      try {
+        if (!onProfile) {
+          await navigate(profilePage, profileUrl);
+        }
+        const name = await profilePage
+          .$eval("pierce/h1", (el) => el.textContent?.trim() || null)
+          .catch(() => null);
+        const summary = parseProfile(
+          profilePage.url(),
+          name,
+          await profilePage.evaluate(collectPageText),
+          await profilePage.evaluate(collectOutlineLinks),
+          recentBadges,
+        );
+        if (summary.points === null && summary.badgeCount === null) {
+          return createMcpError(
+            "PROFILE_NOT_READABLE",
+            `Could not read profile statistics from ${profilePage.url()}. Make sure you are signed in to Trailhead.`,
+          );
+        }
+        return createMcpResponse(JSON.stringify(summary, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error reading the profile", error);
+      } finally {
+        if (!onProfile) {
+          await profilePage.close().catch(console.error);
+        }
+      }
+    },
+  );
+
+  tool(
+    "get-progress",
+    "Get a summary of locally recorded Trailhead progress as JSON: units visited, quiz attempts and outcomes, points and badges earned, with timestamps.",
+    {},
+    async () => {
+      try {
+        const summary = summarizeProgress(await readProgress());
+        return createMcpResponse(JSON.stringify(summary, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error reading progress ledger", error);
+      }
+    },
+  );
+
+  tool(
+    "export-progress",
+    "Export the local progress ledger as CSV (one row per event) or JSON (summary plus every event) for reporting.",
+    {
+      format: z.enum(["csv", "json"]).describe("Export format"),
+      outputPath: z
+        .string()
+        .optional()
+        .describe("If given, the export is written to this file instead of being returned"),
+    },
+    async ({ format, outputPath }) => {
+      try {
+        const events = await readProgress();
+        const exported =
+          format === "csv"
+            ? progressToCsv(events)
+            : JSON.stringify({ summary: summarizeProgress(events), events }, null, 2);
+
+        if (!outputPath) {
+          return createMcpResponse(exported);
+        }
+        const target = resolve(outputPath);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, exported, "utf8");
+        return createMcpResponse(`Exported ${events.length} event(s) from ${getLedgerFile()} to ${target}`);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error exporting progress", error);
+      }
+    },
+  );
+
+  tool(
+    "export-study-pack",
+    "Export study material for a module from the units and quizzes read so far: Anki-compatible flashcards (CSV/TSV) from the quiz questions with their confirmed correct answers, Markdown notes of the unit content, and a JSON bundle. Files are written to <outputDir>/<module slug>/.",
+    {
+      moduleUrl: z
+        .string()
+        .optional()
+        .describe("URL of the module, project or trail (or any of its units). Defaults to the current page's"),
+      allModules: z.boolean().optional().describe("Export every module with stored content instead"),
+      formats: z
+        .array(z.enum(["csv", "tsv", "markdown", "json"]))
+        .optional()
+        .describe("Files to write (default all)"),
+      outputDir: z
+        .string()
+        .optional()
+        .describe("Directory to write to (default --study-dir, or study/ under the data directory)"),
+      includeUnconfirmed: z
+        .boolean()
+        .optional()
+        .describe("Also make flashcards for questions without a confirmed correct answer"),
+    },
+    async ({
+      moduleUrl,
+      allModules = false,
+      formats = ["csv", "tsv", "markdown", "json"],
+      outputDir,
+      includeUnconfirmed = false,
+    }) => {
+      try {
+        let overviewUrls: string[];
+        if (allModules) {
+          overviewUrls = await listStudyModules();
+        } else {
+          const url = moduleUrl ?? (await getCurrentPage()).url();
+          const location = parseTrailheadUrl(url);
+          if (!location) {
+            return createMcpError("OUTLINE_NOT_FOUND", `${url} is not part of a Trailhead module, project or trail`);
+          }
+          overviewUrls = [location.overviewUrl];
+        }
+        if (overviewUrls.length === 0) {
+          return createMcpResponse("Nothing to export yet. Read some unit content or quizzes first.");
+        }
+
+        const target = resolve(outputDir ?? getStudyDir());
+        const exported = [];
+        for (const overviewUrl of overviewUrls) {
+          // The outline gives the module's title and unit order, when it can be loaded
+          let title: string | null = null;
+          let unitOrder: string[] = [];
+          try {
+            const outline = await getContentOutline(await getCurrentPage(), overviewUrl);
+            title = outline.title;
+            unitOrder = outline.units.map((unit) => unit.url);
+          } catch (error) {
+            console.error(`Could not load the outline of ${overviewUrl}:`, error);
+          }
+
+          const pack = await buildStudyPack(overviewUrl, title, unitOrder);
+          const files = await writeStudyPack(pack, target, formats, includeUnconfirmed);
+          exported.push({
+            module: pack.module.title,
+            units: pack.units.length,
+            questions: pack.units.reduce((sum, unit) => sum + (unit.quiz?.questions.length ?? 0), 0),
+            files,
+          });
+        }
+        return createMcpResponse(JSON.stringify({ outputDir: target, exported }, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error exporting study pack", error);
+      }
+    },
+  );
+
+  tool(
+    "debug-selector",
+    "Debug a selector by running it through Puppeteer's query handlers on the current page. Returns JSON describing each match, including the chain of shadow hosts it sits under.",
+    {
+      selector: z.string().describe('The selector to test. CSS selectors may use ">>>" to pierce shadow DOM'),
+      type: z
+        .enum(["css", "pierce", "xpath", "text"])
+        .optional()
+        .describe(
+          'How to interpret the selector (default "css"): "pierce" matches CSS inside every shadow root, "xpath" is an XPath expression, "text" matches elements by their text',
+        ),
+      verbose: z.boolean().optional().describe("If true, also returns attributes and inner HTML of each match"),
+      limit: z.number().int().positive().optional().describe("Maximum number of matches to describe (default 5)"),
+      includeReport: z.boolean().optional().describe("Also return a human-readable report"),
+    },
+    async ({ selector, type = "css", verbose = false, limit = 5, includeReport = false }) => {
+      const page = await getCurrentPage();
+      try {
+        const result = await debugSelector(page, selector, type, { limit, verbose });
+        if (result.error) {
+          return createMcpError("INVALID_ARGUMENTS", `Invalid selector "${selector}"`, undefined, result);
+        }
+        const response = createMcpResponse(JSON.stringify(result, null, 2));
+        if (includeReport) {
+          response.content.push({ type: "text", text: formatSelectorReport(result) });
+        }
+        return response;
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error debugging selector", error);
+      }
+    },
+  );
+
+  tool(
+    "dump-dom-outline",
+    "Print a depth-limited outline of the current page's element tree, including open shadow roots, to see how the page is structured when selectors stop matching.",
+    {
+      selector: z
+        .string()
+        .optional()
+        .describe('Element to start from (default the whole body); ">>>" pierces shadow DOM'),
+      maxDepth: z.number().int().positive().optional().describe("How many levels to descend (default 6)"),
+      maxChildren: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Children listed per element before the rest are summarized (default 25)"),
+    },
+    async ({ selector, maxDepth = 6, maxChildren = 25 }) => {
+      const page = await getCurrentPage();
+      try {
+        const root = await page.$(selector ?? "body");
+        if (!root) {
+          return createMcpError("ELEMENT_NOT_FOUND", `No element matches "${selector}"`);
+        }
+        const outline = await root.evaluate(outlineDom, maxDepth, maxChildren);
+        return createMcpResponse(outline);
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error outlining the DOM", error);
+      }
+    },
+  );
+
+  tool(
+    "capture-page-snapshot",
+    "Save the current page's DOM, including shadow roots, to the snapshot directory so it can be served offline in replay mode (--replay). Scripts are stripped; quiz submission is simulated on replay.",
+    {
+      name: z
+        .string()
+        .optional()
+        .describe("File name for the snapshot. Defaults to one derived from the page URL"),
+      correctOptionIds: z
+        .array(z.string())
+        .optional()
+        .describe("Option IDs of the correct quiz answers, used to grade simulated submissions on replay"),
+      points: z
+        .number()
+        .optional()
+        .describe("Points the simulated completion banner reports on replay (default 100)"),
+    },
+    async ({ name, correctOptionIds, points }) => {
+      const page = await getCurrentPage();
+      try {
+        const html = await page.evaluate(serializeDocument);
+        const saved = await saveSnapshot(html, {
+          name,
+          url: page.url(),
+          title: await getPageTitle(page),
+          correctOptionIds,
+          points,
+        });
+        return createMcpResponse(
+          `Saved snapshot "${saved.metadata.name}" of ${saved.metadata.url} (${html.length} bytes) to ${saved.htmlFile}`,
+        );
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error capturing page snapshot", error);
+      }
+    },
+  );
+
+  tool(
+    "capture-screenshot",
+    "Take a screenshot of the current page and return it as an image: the viewport, the full page, or one element such as the challenge region. Optionally outlines and numbers every element matching a selector, to see what a selector actually finds.",
+    {
+      target: z
+        .enum(["viewport", "fullPage", "element"])
+        .optional()
+        .describe('What to capture (default "viewport", or "element" when a selector is given)'),
+      selector: z
+        .string()
+        .optional()
+        .describe(
+          'Element to capture: a selector (">>>" pierces shadow DOM) or a logical element name from the selector profile, e.g. "challenge"',
+        ),
+      highlight: z
+        .string()
+        .optional()
+        .describe("Outline and number every element matching this selector in the screenshot"),
+      format: z.enum(["png", "jpeg"]).optional().describe('Image format (default "png")'),
+      includeHtml: z
+        .boolean()
+        .optional()
+        .describe("Also return the captured element's HTML as an embedded resource"),
+    },
+    async ({ target, selector, highlight, format = "png", includeHtml = false }) => {
+      const page = await getCurrentPage();
+      try {
+        const screenshot = await captureScreenshot(page, {
+          target: target ?? (selector ? "element" : "viewport"),
+          selector,
+          highlight,
+          format,
+        });
+
+        let summary = `Screenshot of ${page.url()}`;
+        if (selector) {
+          summary += ` (element "${selector}")`;
+        }
+        if (highlight) {
+          summary += `; highlighted ${screenshot.highlighted} element(s) matching "${highlight}"`;
+        }
+
+        const content: McpContent[] = [
+          { type: "text", text: summary },
+          { type: "image", data: screenshot.data, mimeType: screenshot.mimeType },
+        ];
+        if (includeHtml && screenshot.html) {
+          content.push({
+            type: "resource",
+            resource: { uri: page.url(), mimeType: "text/html", text: screenshot.html },
+          });
+        }
+        return { content };
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error capturing screenshot", error);
+      }
+    },
+  );
+
+  tool(
+    "selector-health-check",
+    "Check which logical page elements (unit content, challenge, questions, options, submit button, ...) the active selector profile currently resolves on the live page, and which fallback selector matched each one.",
+    {},
+    async () => {
+      const page = await getCurrentPage();
+      try {
+        const profile = getSelectorProfile();
+        const elements = await checkSelectorHealth(page);
+        return createMcpResponse(
+          JSON.stringify(
+            {
+              profile: { name: profile.name, version: profile.version },
+              url: page.url(),
+              resolved: elements.filter((e) => e.resolved).length,
+              unresolved: elements.filter((e) => !e.resolved).map((e) => e.element),
+              elements,
+            },
+            null,
+            2,
+          ),
+        );
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error checking selectors", error);
+      }
+    },
+  );
+
+  tool(
+    "describe-page",
+    "Report which page adapter (legacy-unit, enhanced-quiz, project-step or superbadge) handles the current page and why: each adapter's detection result with the URL and markup checks behind it, and the quiz selectors the chosen adapter uses. Opens the challenge if needed to see its quiz markup.",
+    {},
+    async () => {
+      const page = await getCurrentPage();
+      try {
+        const { adapter, detections } = await detectAdapter(page);
+        const quizElements = ["question", "questionText", "option", "optionText", "submitButton"] as const;
+        return createMcpResponse(
+          JSON.stringify(
+            {
+              url: page.url(),
+              title: await getPageTitle(page),
+              locale: await detectLocale(page),
+              adapter: { name: adapter.name, description: adapter.description, handsOn: adapter.handsOn },
+              detections: detections.map((detection) => ({
+                ...detection,
+                description: PAGE_ADAPTERS.find((candidate) => candidate.name === detection.adapter)?.description,
+              })),
+              selectors: Object.fromEntries(quizElements.map((element) => [element, adapter.selectorsFor(element)])),
+            },
+            null,
+            2,
+          ),
+        );
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error describing page", error);
+      }
+    },
+  );
+
+  tool(
+    "replay-session",
+    "Review or re-run a session from the audit log of tool calls. \"list\" lists logged sessions, \"summary\" (the default) shows each call with its arguments, URL change, clicks, selected options and outcome, and \"rerun\" performs the session's calls again in order. Calls that submit quiz answers or check challenges on the signed-in account are skipped unless `allowSubmissions` is true.",
+    {
+      sessionId: z
+        .string()
+        .optional()
+        .describe("Session to review or re-run. Defaults to the most recent session before this one"),
+      mode: z.enum(["list", "summary", "rerun"]).optional().describe('What to do (default "summary")'),
+      tools: z.array(z.string()).optional().describe("Only re-run calls to these tools"),
+      stopOnError: z.boolean().optional().describe("Stop re-running at the first failed call (default true)"),
+      allowSubmissions: z
+        .boolean()
+        .optional()
+        .describe("Also re-run calls that submit quiz answers or check challenges on the signed-in account (default false)"),
+    },
+    async ({ sessionId: requested, mode = "summary", tools, stopOnError = true, allowSubmissions = false }, extra) => {
+      try {
+        const entries = await readAuditLog();
+        const sessions = listAuditSessions(entries);
+        if (mode === "list") {
+          return createMcpResponse(JSON.stringify({ auditFile: getAuditFile(), sessions }, null, 2));
+        }
+
+        const target = requested ?? sessions.filter((s) => s.sessionId !== sessionId).at(-1)?.sessionId;
+        const calls = entries.filter((entry) => entry.sessionId === target && entry.tool !== "replay-session");
+        if (!target || calls.length === 0) {
+          return createMcpError(
+            "NOT_FOUND",
+            requested ? `No logged calls for session ${requested}` : `No earlier sessions in ${getAuditFile()}`,
+          );
+        }
+
+        if (mode === "summary") {
+          return createMcpResponse(`Session ${target} (${calls.length} call(s)):\n${summarizeAuditSession(calls)}`);
+        }
+
+        const results = [];
+        for (const call of calls.filter((entry) => !tools || tools.includes(entry.tool))) {
+          const callback = toolCallbacks.get(call.tool);
+          if (!callback) {
+            results.push({ tool: call.tool, args: call.args, outcome: "skipped", message: "Unknown tool" });
+            continue;
+          }
+          if (SUBMITTING_TOOLS.has(call.tool) && !allowSubmissions) {
+            results.push({
+              tool: call.tool,
+              args: call.args,
+              outcome: "skipped",
+              message: "Acts on the signed-in account; pass allowSubmissions: true to re-run it",
+            });
+            continue;
+          }
+          const response = await callback(call.args ?? {}, extra);
+          const text = response.content.find((item) => item.type === "text")?.text ?? "";
+          results.push({
+            tool: call.tool,
+            args: call.args,
+            originalOutcome: call.outcome,
+            outcome: response.isError ? "error" : "ok",
+            message: text.slice(0, 500),
+          });
+          if (response.isError && stopOnError) {
+            break;
+          }
+        }
+        return createMcpResponse(JSON.stringify({ sessionId: target, rerun: results }, null, 2));
+      } catch (error) {
+        return createMcpError("INTERNAL_ERROR", "Error replaying session", error);
+      }
+    },
+  );
+
+  registerResources(server);
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    pendingSubmissions.delete(sessionId);
+    previousOnClose?.();
+  };
+  return server;
+}
+
+const CURRENT_RESOURCES = {
+  content: "trailhead://current/content",
+  quiz: "trailhead://current/quiz",
+  outline: "trailhead://current/outline",
+};
+
+async function getTrailheadPageOrThrow(): Promise<Page> {
+  if (!(await isTrailheadPage())) {
+    throw new ToolError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+  }
+  return await getCurrentPage();
+}
+
+// Exposes the tracked page as resources, and tells subscribed clients when
+// they change because the page navigated
+function registerResources(server: McpServer): void {
+  server.resource(
+    "current-unit-content",
+    CURRENT_RESOURCES.content,
+    {
+      description: "The current Trailhead unit's content as Markdown",
+      mimeType: "text/markdown",
+    },
+    async (uri) =>
+      await runExclusive(async () => {
+        const page = await getTrailheadPageOrThrow();
+        const { markdown } = await readUnitMarkdown(page);
+        return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: markdown }] };
+      }),
+  );
+
+  server.resource(
+    "current-unit-quiz",
+    CURRENT_RESOURCES.quiz,
+    {
+      description: "The current Trailhead unit's quiz questions and options as JSON",
+      mimeType: "application/json",
+    },
+    async (uri) =>
+      await runExclusive(async () => {
+        const page = await getTrailheadPageOrThrow();
+        const { questions } = await (await getPageAdapter(page)).extractQuiz(page);
+        const locale = await detectLocale(page);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "application/json", text: JSON.stringify({ locale, questions }, null, 2) },
+          ],
+        };
+      }),
+  );
+
+  server.resource(
+    "current-module-outline",
+    CURRENT_RESOURCES.outline,
+    {
+      description: "Outline of the module, project or trail the current page belongs to, as JSON",
+      mimeType: "application/json",
+    },
+    async (uri) =>
+      await runExclusive(async () => {
+        const page = await getCurrentPage();
+        if (!isTrailheadUrl(page.url())) {
+          throw new ToolError("NOT_TRAILHEAD_PAGE", TRAILHEAD_ERROR_MESSAGE);
+        }
+        const outline = await getContentOutline(page);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "application/json", text: JSON.stringify(outline, null, 2) },
+          ],
+        };
+      }),
+  );
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = onTrackedPageNavigated(() => {
+    for (const uri of subscriptions) {
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Error sending update for ${uri}:`, error);
+      });
+    }
+  });
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    previousOnClose?.();
+  };
+}
 
 async function main() {
+  await loadSelectorProfile();
+  await loadWaitPolicies();
+  loadConfirmPolicy();
+
+  if (isReplayEnabled()) {
+    const dir = getReplayDir();
+    const port = Number(readOption("--replay-port", "TRAILHEAD_MCP_REPLAY_PORT") ?? 0);
+    replayServer = await startReplayServer(dir, port, selectorsFor("submitButton"));
+    setReplayOrigin(replayServer.origin);
+    addTrailheadHost(new URL(replayServer.origin).host);
+    console.error(`Replaying snapshots from ${dir} at ${replayServer.origin}`);
+  }
+
+  const transportKind = readOption("--transport", "TRAILHEAD_MCP_TRANSPORT") ?? "stdio";
+  if (transportKind === "http") {
+    const host = readOption("--host", "TRAILHEAD_MCP_HOST") ?? "127.0.0.1";
+    const allowedHosts = readOption("--allowed-hosts", "TRAILHEAD_MCP_ALLOWED_HOSTS");
+    httpServer = await startHttpServer(
+      {
+        host,
+        port: Number(readOption("--port", "TRAILHEAD_MCP_PORT") ?? 3000),
+        authToken: readOption("--auth-token", "TRAILHEAD_MCP_AUTH_TOKEN"),
+        allowedHosts: allowedHosts?.split(",").map((name) => name.trim()).filter(Boolean),
+      },
+      createServer,
+    );
+    console.error(`Trailhead Helper MCP Server listening on ${httpServer.url}/mcp (legacy SSE: ${httpServer.url}/sse)`);
+    return;
+  }
+  if (transportKind !== "stdio") {
+    throw new Error(`Unknown transport "${transportKind}", expected "stdio" or "http"`);
+  }
+
+  const server = createServer();
+  // With stdio the server lives exactly as long as its one client
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    if (browser) {
+      browser.close().catch(console.error);
+    }
+    replayServer?.close().catch(console.error);
+  };
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Trailhead Helper MCP Server running on stdio");
 }
 
-server.server.onclose = () => {
-  if (browser) {
-    browser.close().catch(console.error);
-  }
-};
-
 main().catch((error) => {
   console.error("Fatal error in main():", error);
   if (browser) {
@@ -706,6 +2420,7 @@ main().catch((error) => {
 // Ensure cleanup on process exit
 process.on("SIGINT", () => {
   console.error("Closing browser before exit...");
+  httpServer?.close().catch(console.error);
   if (browser) {
     const closePromise = browser.close().catch(console.error);
     closePromise.finally(() => {
@@ -0,0 +1,244 @@
+// Selector debugging and DOM outlines for diagnosing markup changes.
+//
+// Selectors run through Puppeteer's own query handlers, so `>>>` deep
+// combinators, `pierce/`, `xpath/` and `text/` selectors behave exactly as
+// they do for the rest of the server.
+
+import type { ElementHandle, Page } from "puppeteer";
+
+export type SelectorKind = "css" | "pierce" | "xpath" | "text";
+
+export interface ElementMatch {
+  index: number;
+  tagName: string;
+  id: string | null;
+  classes: string[];
+  text: string | null;
+  visible: boolean;
+  box: { x: number; y: number; width: number; height: number };
+  // Shadow hosts between the document and the match, outermost first; empty
+  // when the match is in the light DOM
+  shadowPath: string[];
+  parent: string | null;
+  attributes?: Record<string, string>;
+  html?: string;
+}
+
+export interface SelectorDebugResult {
+  selector: string;
+  kind: SelectorKind;
+  // The selector as handed to Puppeteer
+  query: string;
+  matchCount: number;
+  matches: ElementMatch[];
+  // Matches not described because of the limit
+  omitted: number;
+  error: string | null;
+}
+
+const QUERY_HANDLER_PREFIX = /^(pierce|xpath|text|aria)[/=]/;
+
+// Plain CSS (including `>>>`) needs no prefix; selectors that already name
+// a query handler are left alone
+export function toPuppeteerSelector(selector: string, kind: SelectorKind): string {
+  if (kind === "css" || QUERY_HANDLER_PREFIX.test(selector)) {
+    return selector;
+  }
+  return `${kind}/${selector}`;
+}
+
+/**
+ * Describes a matched node, including the chain of shadow hosts it sits
+ * under. XPath selectors can match text nodes, which are described by their
+ * parent element. Runs inside the page, so it must stay self-contained.
+ */
+function describeMatch(node: Node, index: number, verbose: boolean): ElementMatch | null {
+  const el = node instanceof Element ? node : node.parentElement;
+  if (!el) {
+    return null;
+  }
+
+  const describe = (target: Element) =>
+    target.localName +
+    (target.id ? `#${target.id}` : "") +
+    Array.from(target.classList).map((c) => `.${c}`).join("");
+
+  const shadowPath: string[] = [];
+  let root = el.getRootNode();
+  while (root instanceof ShadowRoot) {
+    shadowPath.unshift(describe(root.host));
+    root = root.host.getRootNode();
+  }
+
+  const rect = el.getBoundingClientRect();
+  const style = window.getComputedStyle(el);
+  const parent = el.parentElement ?? (el.parentNode instanceof ShadowRoot ? el.parentNode.host : null);
+
+  const match: ElementMatch = {
+    index,
+    tagName: el.localName,
+    id: el.id || null,
+    classes: Array.from(el.classList),
+    text: el.textContent?.replace(/\s+/g, " ").trim().slice(0, 200) || null,
+    visible: rect.width > 0 && rect.height > 0 && style.visibility !== "hidden" && style.display !== "none",
+    box: {
+      x: Math.round(rect.left),
+      y: Math.round(rect.top),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    },
+    shadowPath,
+    parent: parent ? describe(parent) : null,
+  };
+  if (verbose) {
+    match.attributes = Object.fromEntries(Array.from(el.attributes).map((attr) => [attr.name, attr.value]));
+    match.html = el.innerHTML.slice(0, 300);
+  }
+  return match;
+}
+
+export async function debugSelector(
+  page: Page,
+  selector: string,
+  kind: SelectorKind,
+  options: { limit: number; verbose: boolean },
+): Promise<SelectorDebugResult> {
+  const query = toPuppeteerSelector(selector, kind);
+  const result: SelectorDebugResult = {
+    selector,
+    kind,
+    query,
+    matchCount: 0,
+    matches: [],
+    omitted: 0,
+    error: null,
+  };
+
+  let handles: ElementHandle<Node>[];
+  try {
+    handles = await page.$$(query);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+
+  result.matchCount = handles.length;
+  const described = handles.slice(0, options.limit);
+  result.omitted = handles.length - described.length;
+  for (const [index, handle] of described.entries()) {
+    const match = await handle.evaluate(describeMatch, index, options.verbose);
+    if (match) {
+      result.matches.push(match);
+    }
+  }
+  return result;
+}
+
+// The human-readable form of a debug result
+export function formatSelectorReport(result: SelectorDebugResult): string {
+  const lines = [`Selector debug results for "${result.selector}" (${result.kind}, queried as "${result.query}")`, ""];
+
+  if (result.error) {
+    lines.push(`❌ Error: ${result.error}`);
+    return lines.join("\n");
+  }
+
+  lines.push(`✅ Found ${result.matchCount} matching element(s)`);
+  if (result.matchCount === 0) {
+    lines.push(
+      "",
+      "💡 Suggestions:",
+      "   • Try a broader selector",
+      "   • Elements may be in shadow DOM: use >>> or the pierce type",
+      "   • Verify the page has loaded completely",
+    );
+    return lines.join("\n");
+  }
+
+  for (const match of result.matches) {
+    const classes = match.classes.length > 0 ? ` class="${match.classes.join(" ")}"` : "";
+    lines.push("", `[${match.index + 1}] <${match.tagName}${match.id ? ` id="${match.id}"` : ""}${classes}>`);
+    if (match.shadowPath.length > 0) {
+      lines.push(`    🌑 Shadow path: ${match.shadowPath.join(" › ")}`);
+    }
+    if (match.text) {
+      lines.push(`    📝 Text: "${match.text}"`);
+    }
+    lines.push(`    👁️  Visible: ${match.visible ? "yes" : "no"}`);
+    lines.push(`    📍 Position: (${match.box.x}, ${match.box.y}) ${match.box.width}×${match.box.height}px`);
+    if (match.parent) {
+      lines.push(`    ⬆️  Parent: ${match.parent}`);
+    }
+    if (match.html) {
+      lines.push(`    🔍 HTML: ${match.html.replace(/\n/g, " ")}`);
+    }
+  }
+  if (result.omitted > 0) {
+    lines.push("", `... and ${result.omitted} more element(s)`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Renders the tree under `root` as indented lines, one per element, with
+ * open shadow roots shown as `#shadow-root` children. Runs inside the page,
+ * so it must stay self-contained.
+ */
+export function outlineDom(root: Element, maxDepth: number, maxChildren: number): string {
+  const SKIPPED_TAGS = new Set(["script", "style", "noscript", "link", "meta", "template"]);
+  const lines: string[] = [];
+
+  const label = (el: Element) => {
+    let text = el.localName;
+    if (el.id) {
+      text += `#${el.id}`;
+    }
+    text += Array.from(el.classList).slice(0, 4).map((c) => `.${c}`).join("");
+    for (const attr of ["role", "name", "type", "data-id"]) {
+      const value = el.getAttribute(attr);
+      if (value) {
+        text += ` [${attr}=${value}]`;
+      }
+    }
+    const ownText = Array.from(el.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => node.textContent ?? "")
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (ownText) {
+      text += ` "${ownText.length > 60 ? `${ownText.slice(0, 60)}…` : ownText}"`;
+    }
+    return text;
+  };
+
+  function walkChildren(parent: Element | ShadowRoot, depth: number): void {
+    const children = Array.from(parent.children).filter((child) => !SKIPPED_TAGS.has(child.localName));
+    for (const child of children.slice(0, maxChildren)) {
+      walk(child, depth);
+    }
+    if (children.length > maxChildren) {
+      lines.push(`${"  ".repeat(depth)}… ${children.length - maxChildren} more`);
+    }
+  }
+
+  function walk(el: Element, depth: number): void {
+    const indent = "  ".repeat(depth);
+    lines.push(`${indent}${label(el)}`);
+    if (depth >= maxDepth) {
+      const hidden = el.children.length + (el.shadowRoot ? 1 : 0);
+      if (hidden > 0) {
+        lines.push(`${indent}  …`);
+      }
+      return;
+    }
+    if (el.shadowRoot) {
+      lines.push(`${indent}  #shadow-root (${el.shadowRoot.mode})`);
+      walkChildren(el.shadowRoot, depth + 2);
+    }
+    walkChildren(el, depth + 1);
+  }
+
+  walk(root, 0);
+  return lines.join("\n");
+}
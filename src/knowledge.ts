@@ -0,0 +1,218 @@
+// Local knowledge index of the unit content extracted so far.
+//
+// Every unit read through the server is split into sections at its
+// headings and stored under the data directory. Questions are answered by
+// ranking those sections with BM25, so quiz answers can draw on earlier
+// units without sending whole units back to the model.
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getDataDir } from "./config.js";
+
+export interface KnowledgeChunk {
+  // Headings from the top of the unit down to this section
+  headings: string[];
+  text: string;
+}
+
+export interface IndexedUnit {
+  url: string;
+  title: string;
+  indexedAt: string;
+  markdown: string;
+  chunks: KnowledgeChunk[];
+}
+
+interface KnowledgeIndex {
+  version: 1;
+  units: Record<string, IndexedUnit>;
+}
+
+export interface Passage {
+  rank: number;
+  score: number;
+  url: string;
+  unitTitle: string;
+  heading: string;
+  text: string;
+}
+
+// Sections longer than this are split again at paragraph breaks
+const MAX_CHUNK_LENGTH = 1500;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how",
+  "in", "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "what", "when",
+  "which", "who", "why", "with", "you", "your",
+]);
+
+export function getKnowledgeFile(): string {
+  return join(getDataDir(), "knowledge.json");
+}
+
+async function readIndex(): Promise<KnowledgeIndex> {
+  try {
+    return JSON.parse(await readFile(getKnowledgeFile(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, units: {} };
+    }
+    throw error;
+  }
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter((token) => !STOP_WORDS.has(token));
+}
+
+function splitLongSection(text: string): string[] {
+  if (text.length <= MAX_CHUNK_LENGTH) {
+    return [text];
+  }
+  const pieces: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > MAX_CHUNK_LENGTH) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits unit Markdown into sections at its headings. Headings inside
+ * fenced code blocks are left alone.
+ */
+export function chunkMarkdown(markdown: string): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  const headings: string[] = [];
+  let levels: number[] = [];
+  let body: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = body.join("\n").trim();
+    if (text) {
+      for (const piece of splitLongSection(text)) {
+        chunks.push({ headings: [...headings], text: piece });
+      }
+    }
+    body = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.*)$/);
+    if (!heading) {
+      body.push(line);
+      continue;
+    }
+
+    flush();
+    const level = heading[1].length;
+    while (levels.length > 0 && levels[levels.length - 1] >= level) {
+      levels.pop();
+      headings.pop();
+    }
+    levels = [...levels, level];
+    headings.push(heading[2].trim());
+  }
+  flush();
+  return chunks;
+}
+
+// Replaces whatever was indexed for the unit before
+export async function indexUnit(unit: { url: string; title: string; markdown: string }): Promise<IndexedUnit> {
+  const index = await readIndex();
+  const entry: IndexedUnit = {
+    url: unit.url,
+    title: unit.title,
+    indexedAt: new Date().toISOString(),
+    markdown: unit.markdown,
+    chunks: chunkMarkdown(unit.markdown),
+  };
+  index.units[unit.url] = entry;
+  await mkdir(getDataDir(), { recursive: true });
+  await writeFile(getKnowledgeFile(), `${JSON.stringify(index)}\n`, "utf8");
+  return entry;
+}
+
+export async function readIndexedUnits(): Promise<IndexedUnit[]> {
+  return Object.values((await readIndex()).units);
+}
+
+/**
+ * Ranks every indexed section against the query with BM25 and returns the
+ * best ones. `urlPrefix` limits the search to units at or under a URL, such
+ * as a module's overview URL, matching whole path segments only.
+ */
+export async function searchKnowledge(
+  query: string,
+  options: { limit: number; urlPrefix?: string },
+): Promise<{ unitsSearched: number; passages: Passage[] }> {
+  // Without the trailing slash, the apex module would also match apex_database
+  const prefix = options.urlPrefix?.replace(/\/+$/, "");
+  const units = (await readIndexedUnits()).filter(
+    (unit) => !prefix || unit.url === prefix || unit.url.startsWith(`${prefix}/`),
+  );
+  const documents = units.flatMap((unit) =>
+    unit.chunks.map((chunk) => ({
+      unit,
+      chunk,
+      // Headings count towards the section's terms
+      tokens: tokenize(`${chunk.headings.join(" ")} ${chunk.text}`),
+    })),
+  );
+  const terms = [...new Set(tokenize(query))];
+  if (documents.length === 0 || terms.length === 0) {
+    return { unitsSearched: units.length, passages: [] };
+  }
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.tokens.length, 0) / documents.length;
+  const documentFrequency = new Map(
+    terms.map((term) => [term, documents.filter((doc) => doc.tokens.includes(term)).length]),
+  );
+
+  const scored = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const token of doc.tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    let score = 0;
+    for (const term of terms) {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * doc.tokens.length) / averageLength));
+    }
+    return { doc, score };
+  });
+
+  const passages = scored
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit)
+    .map(({ doc, score }, i) => ({
+      rank: i + 1,
+      score: Math.round(score * 1000) / 1000,
+      url: doc.unit.url,
+      unitTitle: doc.unit.title,
+      heading: doc.chunk.headings.join(" › "),
+      text: doc.chunk.text,
+    }));
+  return { unitsSearched: units.length, passages };
+}
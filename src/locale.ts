@@ -0,0 +1,133 @@
+// Localized Trailhead: which language a page is in, and the UI strings that
+// buttons are found by when no selector identifies them.
+
+import type { Page } from "puppeteer";
+
+// Locales Trailhead serves, as they appear in URL prefixes such as `/ja/`
+export const TRAILHEAD_LOCALES = ["en", "ja", "de", "fr", "es", "es-MX", "it", "pt-BR"] as const;
+
+export type TrailheadLocale = (typeof TRAILHEAD_LOCALES)[number];
+
+export type UiString = "nextUnit" | "showMore" | "tryAgain" | "true" | "false";
+
+// Button and answer labels by locale. Buttons are matched on their whole
+// text, ignoring case and whitespace; "showMore" only needs a prefix match.
+const UI_STRINGS: Record<TrailheadLocale, Record<UiString, string[]>> = {
+  en: {
+    nextUnit: ["Tackle the next unit"],
+    showMore: ["Show more", "Load more"],
+    tryAgain: ["Try again", "Retry", "Reset"],
+    true: ["True"],
+    false: ["False"],
+  },
+  ja: {
+    nextUnit: ["次の単元に挑戦", "次の単元に進む"],
+    showMore: ["さらに表示", "もっと見る"],
+    tryAgain: ["再試行", "もう一度試す", "リセット"],
+    true: ["正しい", "正"],
+    false: ["誤り", "誤"],
+  },
+  de: {
+    nextUnit: ["Nächste Einheit in Angriff nehmen", "Weiter zur nächsten Einheit"],
+    showMore: ["Mehr anzeigen", "Mehr laden"],
+    tryAgain: ["Erneut versuchen", "Wiederholen", "Zurücksetzen"],
+    true: ["Richtig", "Wahr"],
+    false: ["Falsch"],
+  },
+  fr: {
+    nextUnit: ["Attaquer l'unité suivante", "Passer à l'unité suivante"],
+    showMore: ["Afficher plus", "Charger plus"],
+    tryAgain: ["Réessayer", "Réinitialiser"],
+    true: ["Vrai"],
+    false: ["Faux"],
+  },
+  es: {
+    nextUnit: ["Abordar la siguiente unidad", "Pasar a la siguiente unidad"],
+    showMore: ["Mostrar más", "Cargar más"],
+    tryAgain: ["Intentar de nuevo", "Volver a intentarlo", "Restablecer"],
+    true: ["Verdadero"],
+    false: ["Falso"],
+  },
+  "es-MX": {
+    nextUnit: ["Abordar la siguiente unidad", "Pasar a la siguiente unidad"],
+    showMore: ["Mostrar más", "Cargar más"],
+    tryAgain: ["Intentar de nuevo", "Volver a intentarlo", "Restablecer"],
+    true: ["Verdadero"],
+    false: ["Falso"],
+  },
+  it: {
+    nextUnit: ["Affronta l'unità successiva", "Passa all'unità successiva"],
+    showMore: ["Mostra altro", "Carica altro"],
+    tryAgain: ["Riprova", "Reimposta"],
+    true: ["Vero"],
+    false: ["Falso"],
+  },
+  "pt-BR": {
+    nextUnit: ["Enfrente a próxima unidade", "Ir para a próxima unidade"],
+    showMore: ["Mostrar mais", "Carregar mais"],
+    tryAgain: ["Tentar novamente", "Redefinir"],
+    true: ["Verdadeiro"],
+    false: ["Falso"],
+  },
+};
+
+/**
+ * Maps a language tag such as `ja-JP`, `pt-br` or `en` to a Trailhead
+ * locale: an exact match first, then by primary language.
+ */
+export function resolveLocale(tag: string | null | undefined): TrailheadLocale | null {
+  if (!tag) return null;
+  const lower = tag.trim().toLowerCase().replace(/_/g, "-");
+  const exact = TRAILHEAD_LOCALES.find((locale) => locale.toLowerCase() === lower);
+  if (exact) return exact;
+  const language = lower.split("-")[0];
+  return TRAILHEAD_LOCALES.find((locale) => locale.split("-")[0].toLowerCase() === language) ?? null;
+}
+
+// The locale prefix of a Trailhead URL's path, e.g. "ja" for /ja/content/...
+export function localeFromUrl(url: string): TrailheadLocale | null {
+  try {
+    const segment = new URL(url).pathname.split("/")[1] ?? "";
+    return TRAILHEAD_LOCALES.find((locale) => locale.toLowerCase() === segment.toLowerCase()) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Adds the locale prefix to a Trailhead URL; English URLs have none
+export function localizeUrl(url: string, locale: TrailheadLocale): string {
+  if (locale === "en" || localeFromUrl(url)) {
+    return url;
+  }
+  const parsed = new URL(url);
+  parsed.pathname = `/${locale}${parsed.pathname}`;
+  return parsed.toString();
+}
+
+/**
+ * Reads the page's locale from its `lang` attribute, then from the URL
+ * prefix, defaulting to English.
+ */
+export async function detectLocale(page: Page): Promise<TrailheadLocale> {
+  const lang = await page.evaluate(() => document.documentElement.lang).catch(() => null);
+  return resolveLocale(lang) ?? localeFromUrl(page.url()) ?? "en";
+}
+
+// Lowercased with whitespace collapsed and curly apostrophes straightened
+export function normalizeUiText(text: string): string {
+  return text.replace(/[’‘]/g, "'").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * The labels to match for `key`, normalized. English labels are always
+ * included, since parts of localized pages are left untranslated.
+ */
+export function uiStrings(locale: TrailheadLocale, key: UiString): string[] {
+  const labels = locale === "en" ? UI_STRINGS.en[key] : [...UI_STRINGS[locale][key], ...UI_STRINGS.en[key]];
+  return labels.map(normalizeUiText);
+}
+
+// Every locale's labels for `key`, for text that is matched without a page
+export function allUiStrings(key: UiString): string[] {
+  return [...new Set(TRAILHEAD_LOCALES.flatMap((locale) => UI_STRINGS[locale][key]).map(normalizeUiText))];
+}
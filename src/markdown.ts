@@ -0,0 +1,276 @@
+// Converts Trailhead unit content into Markdown.
+//
+// `unitContentToMarkdown` is handed to `page.$eval`, which serializes the
+// function source into the browser. It must not reference anything outside
+// its own body (no imports, no module-level helpers).
+
+export interface OutlineEntry {
+  level: number;
+  text: string;
+  anchor: string | null;
+}
+
+export interface UnitMarkdown {
+  markdown: string;
+  outline: OutlineEntry[];
+}
+
+export function unitContentToMarkdown(root: Element): UnitMarkdown {
+  const outline: OutlineEntry[] = [];
+
+  const BLOCK_TAGS = new Set([
+    "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DETAILS", "DIV", "DL", "DD", "DT",
+    "FIELDSET", "FIGCAPTION", "FIGURE", "FOOTER", "FORM", "H1", "H2", "H3", "H4",
+    "H5", "H6", "HEADER", "HR", "LI", "MAIN", "NAV", "OL", "P", "PRE", "SECTION",
+    "SUMMARY", "TABLE", "UL",
+  ]);
+  const INLINE_TAGS = new Set([
+    "A", "ABBR", "B", "BR", "CITE", "CODE", "EM", "I", "IMG", "KBD", "MARK", "Q",
+    "S", "SAMP", "SMALL", "SPAN", "STRONG", "SUB", "SUP", "U", "VAR",
+  ]);
+  const SKIP_TAGS = new Set([
+    "BUTTON", "IFRAME", "INPUT", "NOSCRIPT", "SCRIPT", "SELECT", "STYLE", "SVG",
+    "TEMPLATE", "TEXTAREA",
+  ]);
+  const CALLOUT_LABELS = ["note", "tip", "warning", "important", "caution"];
+
+  const collapse = (text: string) => text.replace(/\s+/g, " ");
+
+  const absoluteUrl = (url: string) => {
+    try {
+      return new URL(url, document.baseURI).href;
+    } catch {
+      return url;
+    }
+  };
+
+  // Shadow roots and slots are walked so web components render their content
+  const childrenOf = (node: Node): Node[] => {
+    const el = node as Element;
+    if (el.shadowRoot) {
+      return Array.from(el.shadowRoot.childNodes);
+    }
+    if (el.tagName === "SLOT") {
+      const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true });
+      if (assigned.length > 0) {
+        return assigned;
+      }
+    }
+    return Array.from(node.childNodes);
+  };
+
+  const isHidden = (el: Element) =>
+    el.hasAttribute("hidden") || el.getAttribute("aria-hidden") === "true";
+
+  const isBlock = (el: Element) => {
+    if (BLOCK_TAGS.has(el.tagName)) return true;
+    if (INLINE_TAGS.has(el.tagName)) return false;
+    const display = window.getComputedStyle(el).display;
+    return !display.startsWith("inline") && display !== "none";
+  };
+
+  const calloutLabel = (el: Element): string | null => {
+    const classes = Array.from(el.classList).map((c) => c.toLowerCase());
+    const isCallout =
+      el.tagName === "ASIDE" || classes.some((c) => c.includes("callout"));
+    for (const label of CALLOUT_LABELS) {
+      if (classes.some((c) => c === label || c.endsWith(`-${label}`) || c.endsWith(`--${label}`))) {
+        return label[0].toUpperCase() + label.slice(1);
+      }
+    }
+    if (!isCallout) return null;
+    const lead = collapse(el.textContent ?? "").trim().toLowerCase();
+    const found = CALLOUT_LABELS.find((label) => lead.startsWith(label));
+    return found ? found[0].toUpperCase() + found.slice(1) : "Note";
+  };
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return collapse(node.textContent ?? "");
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+    const el = node as Element;
+    if (SKIP_TAGS.has(el.tagName) || isHidden(el)) return "";
+
+    const inner = () => childrenOf(el).map(inline).join("");
+    switch (el.tagName) {
+      case "BR":
+        return "  \n";
+      case "STRONG":
+      case "B": {
+        const text = inner().trim();
+        return text ? `**${text}**` : "";
+      }
+      case "EM":
+      case "I": {
+        const text = inner().trim();
+        return text ? `_${text}_` : "";
+      }
+      case "CODE":
+      case "KBD":
+      case "SAMP": {
+        const text = (el.textContent ?? "").trim();
+        return text ? `\`${text}\`` : "";
+      }
+      case "A": {
+        const text = inner().trim();
+        const href = el.getAttribute("href");
+        if (!href || href.startsWith("javascript:")) return text;
+        return `[${text || href}](${href.startsWith("#") ? href : absoluteUrl(href)})`;
+      }
+      case "IMG": {
+        const src = el.getAttribute("src");
+        if (!src) return "";
+        const alt = collapse(el.getAttribute("alt") ?? "").trim();
+        return `![${alt}](${absoluteUrl(src)})`;
+      }
+      default:
+        return inner();
+    }
+  };
+
+  const tidyInline = (text: string) =>
+    text
+      .split("\n")
+      .map((line) => (line.endsWith("  ") ? `${line.trim()}  ` : line.trim()))
+      .join("\n")
+      .trim();
+
+  const indentLines = (text: string, indent: string) =>
+    text
+      .split("\n")
+      .map((line) => (line ? indent + line : line))
+      .join("\n");
+
+  const renderList = (el: Element): string => {
+    const ordered = el.tagName === "OL";
+    let counter = Number(el.getAttribute("start") ?? "1") || 1;
+    const items: string[] = [];
+    for (const child of childrenOf(el)) {
+      if ((child as Element).tagName !== "LI") continue;
+      const marker = ordered ? `${counter++}.` : "-";
+      const body = blocksOf(child).join("\n");
+      const [first = "", ...rest] = body.split("\n");
+      const indent = " ".repeat(marker.length + 1);
+      items.push([`${marker} ${first}`, ...rest.map((line) => (line ? indent + line : line))].join("\n"));
+    }
+    return items.join("\n");
+  };
+
+  const renderCode = (el: Element): string => {
+    const code = el.querySelector("code") ?? el;
+    const classes = `${el.className} ${code.className}`;
+    const language =
+      classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ??
+      el.getAttribute("data-language") ??
+      code.getAttribute("data-language") ??
+      "";
+    const text = (code.textContent ?? "").replace(/\n+$/, "");
+    const fence = text.includes("```") ? "````" : "```";
+    return `${fence}${language}\n${text}\n${fence}`;
+  };
+
+  const renderTable = (el: HTMLTableElement): string => {
+    const rows = Array.from(el.rows).map((row) =>
+      Array.from(row.cells).map((cell) =>
+        blocksOf(cell).join(" ").replace(/\|/g, "\\|").replace(/\n/g, "<br>"),
+      ),
+    );
+    if (rows.length === 0) return "";
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+    const [header, ...body] = rows;
+    return [line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n");
+  };
+
+  const renderBlock = (el: Element): string => {
+    const tag = el.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      const level = Number(tag[1]);
+      const text = tidyInline(inline(el));
+      if (!text) return "";
+      outline.push({ level, text: collapse(el.textContent ?? "").trim(), anchor: el.id || null });
+      return `${"#".repeat(level)} ${text}`;
+    }
+
+    const label = calloutLabel(el);
+    if (label) {
+      const body = blocksOf(el).join("\n\n");
+      const stripped = body.replace(new RegExp(`^(\\*\\*|_)?${label}:?(\\*\\*|_)?:?\\s*`, "i"), "");
+      return indentLines(`**${label}:** ${stripped}`, "> ").replace(/^$/gm, ">");
+    }
+
+    switch (tag) {
+      case "P":
+      case "SUMMARY":
+      case "DT":
+        return tidyInline(inline(el));
+      case "UL":
+      case "OL":
+        return renderList(el);
+      case "PRE":
+        return renderCode(el);
+      case "TABLE":
+        return renderTable(el as HTMLTableElement);
+      case "HR":
+        return "---";
+      case "BLOCKQUOTE":
+        return indentLines(blocksOf(el).join("\n\n"), "> ").replace(/^$/gm, ">");
+      case "FIGCAPTION":
+        return `_${tidyInline(inline(el))}_`;
+      case "DD":
+        return indentLines(blocksOf(el).join("\n\n"), "    ");
+      default:
+        return blocksOf(el).join("\n\n");
+    }
+  };
+
+  // Renders a node's children as Markdown blocks, gathering runs of inline
+  // content into paragraphs between block-level children
+  function blocksOf(node: Node): string[] {
+    const blocks: string[] = [];
+    let paragraph = "";
+    const flush = () => {
+      const text = tidyInline(paragraph);
+      if (text) blocks.push(text);
+      paragraph = "";
+    };
+
+    for (const child of childrenOf(node)) {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        const el = child as Element;
+        if (SKIP_TAGS.has(el.tagName) || isHidden(el)) continue;
+        if (isBlock(el)) {
+          flush();
+          const block = renderBlock(el);
+          if (block.trim()) blocks.push(block);
+          continue;
+        }
+      }
+      paragraph += inline(child);
+    }
+    flush();
+    return blocks;
+  }
+
+  const markdown = blocksOf(root)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { markdown, outline };
+}
+
+export function formatOutline(outline: OutlineEntry[]): string {
+  if (outline.length === 0) {
+    return "Outline: (no headings found)";
+  }
+  const minLevel = Math.min(...outline.map((entry) => entry.level));
+  const lines = outline.map((entry) => {
+    const indent = "  ".repeat(entry.level - minLevel);
+    const anchor = entry.anchor ? ` (#${entry.anchor})` : "";
+    return `${indent}- ${entry.text}${anchor}`;
+  });
+  return `Outline:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,136 @@
+// Module, project and trail outlines scraped from Trailhead overview pages.
+
+import { normalizeUrl, parseTrailheadUrl, type ContentKind } from "./urls.js";
+
+export interface OutlineLink {
+  href: string;
+  text: string;
+  // Text of the card or list item the link sits in
+  context: string;
+  completed: boolean;
+}
+
+export interface OutlineItem {
+  index: number;
+  title: string;
+  url: string;
+  estimatedMinutes: number | null;
+  points: number | null;
+  completed: boolean;
+  current: boolean;
+}
+
+export interface ContentOutline {
+  kind: ContentKind;
+  title: string;
+  url: string;
+  units: OutlineItem[];
+  currentIndex: number | null;
+}
+
+/**
+ * Collects every link on the page, including links inside shadow roots,
+ * with the text and completion state of the card around it. Runs inside
+ * the page via `page.evaluate`, so it must stay self-contained.
+ */
+export function collectOutlineLinks(): OutlineLink[] {
+  const anchors: HTMLAnchorElement[] = [];
+  const walk = (root: Document | ShadowRoot) => {
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      if (el instanceof HTMLAnchorElement && el.href) {
+        anchors.push(el);
+      }
+      if (el.shadowRoot) {
+        walk(el.shadowRoot);
+      }
+    }
+  };
+  walk(document);
+
+  return anchors.map((anchor) => {
+    const container =
+      anchor.closest("li, article, [class*='card'], [class*='unit'], [class*='item']") ??
+      anchor.parentElement;
+    const context = (container as HTMLElement | null)?.innerText ?? "";
+    const completed =
+      /\bcompleted?\b/i.test(context) ||
+      !!container?.querySelector(
+        "[class*='complete'], [aria-label*='omplete'], [title*='omplete']",
+      );
+    return {
+      href: anchor.href,
+      text: (anchor.innerText || anchor.textContent || "").trim(),
+      context: context.trim(),
+      completed,
+    };
+  });
+}
+
+export function parseDurationMinutes(text: string): number | null {
+  const hours = text.match(/(\d+)\s*(?:hrs?|hours?)\b/i)?.[1];
+  const minutes = text.match(/(\d+)\s*(?:mins?|minutes?)\b/i)?.[1];
+  if (!hours && !minutes) return null;
+  return Number(hours ?? 0) * 60 + Number(minutes ?? 0);
+}
+
+export function parsePoints(text: string): number | null {
+  const points = text.match(/\+?\s*([\d,]+)\s*(?:pts|points)\b/i)?.[1];
+  return points ? Number(points.replace(/,/g, "")) : null;
+}
+
+/**
+ * Builds an outline from the links found on an overview page. Modules and
+ * projects list their units; trails list the modules and projects in them.
+ */
+export function buildOutline(
+  overviewUrl: string,
+  title: string,
+  links: OutlineLink[],
+  currentUrl: string,
+): ContentOutline | null {
+  const overview = parseTrailheadUrl(overviewUrl);
+  if (!overview) return null;
+
+  // In a trail, the current item is the module the current unit belongs to
+  const current = normalizeUrl(
+    overview.kind === "trails"
+      ? parseTrailheadUrl(currentUrl)?.overviewUrl ?? currentUrl
+      : currentUrl,
+  );
+  const seen = new Set<string>();
+  const units: OutlineItem[] = [];
+
+  for (const link of links) {
+    const location = parseTrailheadUrl(link.href);
+    if (!location) continue;
+
+    const belongs =
+      overview.kind === "trails"
+        ? location.kind !== "trails" && location.unitSlug === null
+        : location.kind === overview.kind &&
+          location.slug === overview.slug &&
+          location.unitSlug !== null;
+    const url = normalizeUrl(link.href);
+    if (!belongs || seen.has(url)) continue;
+    seen.add(url);
+
+    units.push({
+      index: units.length,
+      title: link.text.split("\n")[0].trim() || location.unitSlug || location.slug,
+      url,
+      estimatedMinutes: parseDurationMinutes(link.context),
+      points: parsePoints(link.context),
+      completed: link.completed,
+      current: url === current,
+    });
+  }
+
+  const currentIndex = units.findIndex((unit) => unit.current);
+  return {
+    kind: overview.kind,
+    title,
+    url: overview.overviewUrl,
+    units,
+    currentIndex: currentIndex === -1 ? null : currentIndex,
+  };
+}
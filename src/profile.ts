@@ -0,0 +1,152 @@
+// The signed-in user's Trailblazer profile: rank, points, badges and the
+// content in progress, scraped from the profile page.
+
+import type { OutlineLink } from "./outline.js";
+import { normalizeUrl, parseTrailheadUrl } from "./urls.js";
+
+// Redirects to the signed-in user's profile
+export const PROFILE_URL = "https://trailhead.salesforce.com/me";
+
+// Longest names first, so "Double Star Ranger" wins over "Ranger"
+const RANKS = [
+  "All Star Ranger",
+  "Five Star Ranger",
+  "Four Star Ranger",
+  "Triple Star Ranger",
+  "Double Star Ranger",
+  "Ranger",
+  "Expeditioner",
+  "Mountaineer",
+  "Adventurer",
+  "Explorer",
+  "Hiker",
+  "Scout",
+];
+
+export interface ProfileBadge {
+  title: string;
+  url: string;
+  type: "module" | "project" | "superbadge";
+  earnedAt: string | null;
+}
+
+export interface ProfileInProgress {
+  title: string;
+  url: string;
+  type: "module" | "project" | "trail" | "superbadge";
+  percentComplete: number | null;
+}
+
+export interface ProfileSummary {
+  url: string;
+  name: string | null;
+  rank: string | null;
+  points: number | null;
+  badgeCount: number | null;
+  trailCount: number | null;
+  superbadgeCount: number | null;
+  recentBadges: ProfileBadge[];
+  inProgress: ProfileInProgress[];
+  superbadges: ProfileBadge[];
+}
+
+const TYPES = {
+  modules: "module",
+  projects: "project",
+  trails: "trail",
+  superbadges: "superbadge",
+} as const;
+
+/**
+ * Returns the visible text of the page, including the text inside shadow
+ * roots, which `document.body.innerText` leaves out. Runs inside the page
+ * via `page.evaluate`, so it must stay self-contained.
+ */
+export function collectPageText(): string {
+  const parts = [document.body.innerText];
+  const walk = (root: Document | ShadowRoot) => {
+    for (const el of Array.from(root.querySelectorAll("*"))) {
+      if (el.shadowRoot) {
+        parts.push(
+          Array.from(el.shadowRoot.children)
+            .map((child) => (child as HTMLElement).innerText ?? "")
+            .join("\n"),
+        );
+        walk(el.shadowRoot);
+      }
+    }
+  };
+  walk(document);
+  return parts.join("\n");
+}
+
+function countBefore(text: string, label: string): number | null {
+  const count = text.match(new RegExp(`([\\d,]+)\\s*${label}\\b`, "i"))?.[1];
+  return count ? Number(count.replace(/,/g, "")) : null;
+}
+
+// Dates as the profile shows them, e.g. "Mar 5, 2024" or "3/5/2024"
+function parseEarnedDate(context: string): string | null {
+  const date = context.match(/\b([A-Z][a-z]{2,8}\.? \d{1,2}, \d{4}|\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})\b/)?.[1];
+  if (!date) return null;
+  const parsed = new Date(date.replace(".", ""));
+  if (Number.isNaN(parsed.getTime())) return date;
+  // Dates without a time parse as local midnight, so format them locally too
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Builds the summary from the profile page's text and links. Links to
+ * finished modules, projects and superbadges are badges; links whose card
+ * mentions progress are in-progress items.
+ */
+export function parseProfile(
+  url: string,
+  name: string | null,
+  text: string,
+  links: OutlineLink[],
+  recentLimit: number,
+): ProfileSummary {
+  const badges: ProfileBadge[] = [];
+  const inProgress: ProfileInProgress[] = [];
+  const seen = new Set<string>();
+
+  for (const link of links) {
+    const location = parseTrailheadUrl(link.href);
+    if (!location || location.unitSlug !== null) continue;
+    const linkUrl = normalizeUrl(link.href);
+    if (seen.has(linkUrl)) continue;
+
+    const title = link.text.split("\n")[0].trim() || location.slug;
+    const type = TYPES[location.kind];
+    const percent = link.context.match(/(\d{1,3})\s*%/)?.[1];
+    const earnedAt = parseEarnedDate(link.context);
+
+    if (/\bin progress\b/i.test(link.context) || (percent && Number(percent) < 100)) {
+      seen.add(linkUrl);
+      inProgress.push({ title, url: linkUrl, type, percentComplete: percent ? Number(percent) : null });
+    } else if (type !== "trail" && (earnedAt || link.completed)) {
+      seen.add(linkUrl);
+      badges.push({ title, url: linkUrl, type, earnedAt });
+    }
+  }
+
+  const recentBadges = badges
+    .filter((badge) => badge.type !== "superbadge")
+    .sort((a, b) => (b.earnedAt ?? "").localeCompare(a.earnedAt ?? ""))
+    .slice(0, recentLimit);
+
+  return {
+    url,
+    name,
+    rank: RANKS.find((rank) => new RegExp(`\\b${rank}\\b`).test(text)) ?? null,
+    points: countBefore(text, "points"),
+    badgeCount: countBefore(text, "badges"),
+    trailCount: countBefore(text, "trails"),
+    superbadgeCount: countBefore(text, "superbadges"),
+    recentBadges,
+    inProgress,
+    superbadges: badges.filter((badge) => badge.type === "superbadge"),
+  };
+}
@@ -0,0 +1,193 @@
+// Local progress ledger: an append-only JSONL file of unit visits, quiz
+// attempts and badges, kept under the data directory.
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getDataDir } from "./config.js";
+import type { QuizAnswers, QuizResult } from "./quiz.js";
+
+interface BaseEvent {
+  timestamp: string;
+  url: string;
+  title: string;
+}
+
+export interface UnitVisitEvent extends BaseEvent {
+  type: "unit-visit";
+}
+
+export interface QuizAttemptEvent extends BaseEvent {
+  type: "quiz-attempt";
+  attempt: number;
+  answers: QuizAnswers;
+  status: QuizResult["status"];
+  pointsEarned: number | null;
+  incorrectQuestionIds: string[];
+}
+
+export interface ChallengeCheckEvent extends BaseEvent {
+  type: "challenge-check";
+  status: "passed" | "failed" | "unknown";
+  pointsEarned: number | null;
+}
+
+export interface BadgeEvent extends BaseEvent {
+  type: "badge";
+  badge: string;
+}
+
+export type ProgressEvent = UnitVisitEvent | QuizAttemptEvent | ChallengeCheckEvent | BadgeEvent;
+
+// Distributes Omit over the union so each event keeps its own fields
+type NewProgressEvent<E = ProgressEvent> = E extends unknown ? Omit<E, "timestamp"> : never;
+
+export interface UnitProgress {
+  url: string;
+  title: string;
+  firstVisitedAt: string | null;
+  lastActivityAt: string;
+  quizAttempts: number;
+  passed: boolean;
+  pointsEarned: number;
+}
+
+export interface ProgressSummary {
+  ledgerFile: string;
+  totals: {
+    unitsVisited: number;
+    quizAttempts: number;
+    quizzesPassed: number;
+    pointsEarned: number;
+    badgesEarned: number;
+  };
+  units: UnitProgress[];
+  badges: { badge: string; url: string; earnedAt: string }[];
+}
+
+export function getLedgerFile(): string {
+  return join(getDataDir(), "progress.jsonl");
+}
+
+export async function recordProgress(event: NewProgressEvent): Promise<void> {
+  const entry = { timestamp: new Date().toISOString(), ...event };
+  await mkdir(getDataDir(), { recursive: true });
+  await appendFile(getLedgerFile(), `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+export async function readProgress(): Promise<ProgressEvent[]> {
+  let contents: string;
+  try {
+    contents = await readFile(getLedgerFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const events: ProgressEvent[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      console.error("Skipping unreadable progress ledger line:", line);
+    }
+  }
+  return events;
+}
+
+export function summarizeProgress(events: ProgressEvent[]): ProgressSummary {
+  const units = new Map<string, UnitProgress>();
+  const badges: ProgressSummary["badges"] = [];
+
+  for (const event of events) {
+    if (event.type === "badge") {
+      badges.push({ badge: event.badge, url: event.url, earnedAt: event.timestamp });
+      continue;
+    }
+
+    const unit = units.get(event.url) ?? {
+      url: event.url,
+      title: event.title,
+      firstVisitedAt: null,
+      lastActivityAt: event.timestamp,
+      quizAttempts: 0,
+      passed: false,
+      pointsEarned: 0,
+    };
+    unit.title = event.title || unit.title;
+    unit.lastActivityAt = event.timestamp;
+
+    if (event.type === "unit-visit") {
+      unit.firstVisitedAt ??= event.timestamp;
+    } else if (event.type === "challenge-check") {
+      if (event.status === "passed" && !unit.passed) {
+        unit.passed = true;
+        unit.pointsEarned = event.pointsEarned ?? 0;
+      }
+    } else {
+      unit.quizAttempts += 1;
+      if (event.status === "passed" && !unit.passed) {
+        unit.passed = true;
+        unit.pointsEarned = event.pointsEarned ?? 0;
+      }
+    }
+    units.set(event.url, unit);
+  }
+
+  const unitList = [...units.values()];
+  return {
+    ledgerFile: getLedgerFile(),
+    totals: {
+      unitsVisited: unitList.filter((u) => u.firstVisitedAt !== null).length,
+      quizAttempts: unitList.reduce((sum, u) => sum + u.quizAttempts, 0),
+      quizzesPassed: unitList.filter((u) => u.passed).length,
+      pointsEarned: unitList.reduce((sum, u) => sum + u.pointsEarned, 0),
+      badgesEarned: badges.length,
+    },
+    units: unitList,
+    badges,
+  };
+}
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "type",
+  "url",
+  "title",
+  "attempt",
+  "status",
+  "points_earned",
+  "badge",
+  "option_ids",
+  "incorrect_question_ids",
+];
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per ledger event, for spreadsheets and reporting
+export function progressToCsv(events: ProgressEvent[]): string {
+  const rows = events.map((event) => {
+    const attempt = event.type === "quiz-attempt" ? event : null;
+    const check = event.type === "challenge-check" ? event : null;
+    return [
+      event.timestamp,
+      event.type,
+      event.url,
+      event.title,
+      attempt?.attempt,
+      (attempt ?? check)?.status,
+      (attempt ?? check)?.pointsEarned,
+      event.type === "badge" ? event.badge : null,
+      attempt ? Object.values(attempt.answers).flat().join(" ") : null,
+      attempt?.incorrectQuestionIds.join(" "),
+    ]
+      .map(csvCell)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,195 @@
+// Quiz types and the DOM-independent rules for question types and answers.
+
+import { allUiStrings, normalizeUiText } from "./locale.js";
+
+export type QuizQuestionType = "single" | "multiple" | "true-false";
+
+export interface QuizOption {
+  id: string;
+  text: string;
+  index: number;
+}
+
+export interface QuizQuestion {
+  id: string;
+  text: string;
+  type: QuizQuestionType;
+  minSelections: number;
+  maxSelections: number;
+  options: QuizOption[];
+}
+
+export interface QuizStructure {
+  questions: QuizQuestion[];
+}
+
+// Map of question ID to the option IDs chosen for it
+export type QuizAnswers = Record<string, string[]>;
+
+const COUNT_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+};
+
+/**
+ * Works out a question's type and selection bounds from its input types,
+ * option labels and any "select two" / "select all that apply" instruction.
+ */
+export function detectQuestionType(
+  text: string,
+  inputTypes: string[],
+  optionTexts: string[],
+): Pick<QuizQuestion, "type" | "minSelections" | "maxSelections"> {
+  const optionCount = optionTexts.length;
+
+  if (inputTypes.some((type) => type === "checkbox")) {
+    const count = text.match(/\b(?:select|choose|pick)\s+(\d+|two|three|four|five)\b/i)?.[1];
+    if (count) {
+      const n = COUNT_WORDS[count.toLowerCase()] ?? Number(count);
+      return { type: "multiple", minSelections: n, maxSelections: n };
+    }
+    return { type: "multiple", minSelections: 1, maxSelections: optionCount };
+  }
+
+  // True/false labels of any locale, since the page's locale isn't known here
+  const labels = optionTexts.map(normalizeUiText);
+  const trueLabels = allUiStrings("true");
+  const falseLabels = allUiStrings("false");
+  if (
+    labels.length === 2 &&
+    labels.some((label) => trueLabels.includes(label)) &&
+    labels.some((label) => falseLabels.includes(label))
+  ) {
+    return { type: "true-false", minSelections: 1, maxSelections: 1 };
+  }
+
+  return { type: "single", minSelections: 1, maxSelections: 1 };
+}
+
+/**
+ * Groups a flat list of option IDs by the question each option belongs to.
+ * Option IDs that match no question are returned in `unknownOptionIds`.
+ */
+export function groupOptionIds(
+  questions: QuizQuestion[],
+  optionIds: string[],
+): { answers: QuizAnswers; unknownOptionIds: string[] } {
+  const answers: QuizAnswers = {};
+  const unknownOptionIds: string[] = [];
+
+  for (const optionId of optionIds) {
+    const question = questions.find((q) => q.options.some((o) => o.id === optionId));
+    if (!question) {
+      unknownOptionIds.push(optionId);
+      continue;
+    }
+    (answers[question.id] ??= []).push(optionId);
+  }
+
+  return { answers, unknownOptionIds };
+}
+
+/**
+ * Checks an answer map against the quiz and returns one message per problem:
+ * unknown question or option IDs, and selection counts the question's type
+ * does not allow. An empty list means the answers can be applied.
+ */
+export function validateAnswers(questions: QuizQuestion[], answers: QuizAnswers): string[] {
+  const problems: string[] = [];
+
+  for (const [questionId, optionIds] of Object.entries(answers)) {
+    const question = questions.find((q) => q.id === questionId);
+    if (!question) {
+      problems.push(`Unknown question ID "${questionId}"`);
+      continue;
+    }
+
+    const unknown = optionIds.filter((id) => !question.options.some((o) => o.id === id));
+    if (unknown.length > 0) {
+      problems.push(
+        `Question "${questionId}" has no option(s) ${unknown.map((id) => `"${id}"`).join(", ")}`,
+      );
+    }
+
+    const count = new Set(optionIds).size;
+    if (count < question.minSelections || count > question.maxSelections) {
+      const expected =
+        question.minSelections === question.maxSelections
+          ? `exactly ${question.minSelections}`
+          : `between ${question.minSelections} and ${question.maxSelections}`;
+      problems.push(
+        `Question "${questionId}" is a ${question.type} question and needs ${expected} option(s), got ${count}`,
+      );
+    }
+  }
+
+  return problems;
+}
+
+export interface SelectionVerification {
+  verified: boolean;
+  selected: QuizAnswers;
+  unansweredQuestionIds: string[];
+  // Questions whose checked options differ from the requested ones
+  mismatchedQuestionIds: string[];
+  unknownOptionIds: string[];
+}
+
+/**
+ * Compares the requested answers with the options the page reports as
+ * checked. Selection is verified only when every question has an answer,
+ * every answered question shows exactly the requested options, and no
+ * option ID was unknown.
+ */
+export function verifySelection(
+  questions: QuizQuestion[],
+  requested: QuizAnswers,
+  selected: QuizAnswers,
+  unknownOptionIds: string[],
+): SelectionVerification {
+  const unansweredQuestionIds = questions
+    .filter((q) => (selected[q.id] ?? []).length === 0)
+    .map((q) => q.id);
+
+  const mismatchedQuestionIds = questions
+    .filter((q) => {
+      const wanted = requested[q.id];
+      if (!wanted) return false;
+      const actual = new Set(selected[q.id] ?? []);
+      const expected = new Set(wanted);
+      return actual.size !== expected.size || [...expected].some((id) => !actual.has(id));
+    })
+    .map((q) => q.id);
+
+  return {
+    verified:
+      unansweredQuestionIds.length === 0 &&
+      mismatchedQuestionIds.length === 0 &&
+      unknownOptionIds.length === 0,
+    selected,
+    unansweredQuestionIds,
+    mismatchedQuestionIds,
+    unknownOptionIds,
+  };
+}
+
+export interface QuestionResult {
+  questionId: string;
+  index: number;
+  // null when the page shows no correctness marker for the question
+  correct: boolean | null;
+  feedback: string | null;
+}
+
+export interface QuizResult {
+  status: "passed" | "failed" | "unknown";
+  attempt: number;
+  pointsEarned: number | null;
+  // Name of the badge the completion banner says was earned, if any
+  badge: string | null;
+  message: string | null;
+  questions: QuestionResult[];
+  incorrectQuestionIds: string[];
+}
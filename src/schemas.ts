@@ -0,0 +1,118 @@
+// Output schemas of the tools that return structured content. The element
+// schemas are typed against the quiz and markdown interfaces, so they fail
+// to compile when the two drift apart.
+
+import { z } from "zod";
+import { TRAILHEAD_LOCALES } from "./locale.js";
+import type { OutlineEntry } from "./markdown.js";
+import type {
+  QuestionResult,
+  QuizOption,
+  QuizQuestion,
+  QuizResult,
+  SelectionVerification,
+} from "./quiz.js";
+import { DEFAULT_SELECTOR_PROFILE, type LogicalElement } from "./selectors.js";
+import type { WaitReport } from "./waits.js";
+
+const optionIdsByQuestion = z.record(z.string(), z.array(z.string()));
+
+export const quizOptionSchema: z.ZodType<QuizOption> = z.object({
+  id: z.string(),
+  text: z.string(),
+  index: z.number().int(),
+});
+
+export const quizQuestionSchema: z.ZodType<QuizQuestion> = z.object({
+  id: z.string(),
+  text: z.string(),
+  type: z.enum(["single", "multiple", "true-false"]),
+  minSelections: z.number().int(),
+  maxSelections: z.number().int(),
+  options: z.array(quizOptionSchema),
+});
+
+const questionResultSchema: z.ZodType<QuestionResult> = z.object({
+  questionId: z.string(),
+  index: z.number().int(),
+  correct: z.boolean().nullable(),
+  feedback: z.string().nullable(),
+});
+
+export const quizResultSchema: z.ZodType<QuizResult> = z.object({
+  status: z.enum(["passed", "failed", "unknown"]),
+  attempt: z.number().int(),
+  pointsEarned: z.number().nullable(),
+  badge: z.string().nullable(),
+  message: z.string().nullable(),
+  questions: z.array(questionResultSchema),
+  incorrectQuestionIds: z.array(z.string()),
+});
+
+export const selectionVerificationSchema: z.ZodType<SelectionVerification> = z.object({
+  verified: z.boolean(),
+  selected: optionIdsByQuestion,
+  unansweredQuestionIds: z.array(z.string()),
+  mismatchedQuestionIds: z.array(z.string()),
+  unknownOptionIds: z.array(z.string()),
+});
+
+export const waitReportSchema: z.ZodType<WaitReport> = z.object({
+  operation: z.enum(["challenge", "quiz", "result", "searchResults", "navigation"]),
+  kind: z.enum(["elements", "networkIdle", "domQuiet", "replaced"]),
+  condition: z.string(),
+  status: z.enum(["satisfied", "timedOut", "skipped"]),
+  element: z.enum(Object.keys(DEFAULT_SELECTOR_PROFILE.selectors) as [LogicalElement, ...LogicalElement[]]).nullable(),
+  attempts: z.number().int(),
+  elapsedMs: z.number(),
+});
+
+// The language the page's material is in
+const localeSchema = z.enum(TRAILHEAD_LOCALES);
+
+const outlineEntrySchema: z.ZodType<OutlineEntry> = z.object({
+  level: z.number().int(),
+  text: z.string(),
+  anchor: z.string().nullable(),
+});
+
+// get-trail-quiz-questions: the QuizStructure, with the page's locale and the
+// waits for the quiz to render
+export const quizStructureOutputShape = {
+  locale: localeSchema,
+  questions: z.array(quizQuestionSchema),
+  waits: z.array(waitReportSchema),
+};
+
+export type QuizQuestionsOutput = z.infer<z.ZodObject<typeof quizStructureOutputShape>>;
+
+// get-current-trail-content
+export const unitContentOutputShape = {
+  url: z.string(),
+  title: z.string(),
+  locale: localeSchema,
+  format: z.enum(["markdown", "text"]),
+  content: z.string(),
+  outline: z.array(outlineEntrySchema).optional(),
+};
+
+export type UnitContent = z.infer<z.ZodObject<typeof unitContentOutputShape>>;
+
+// answer-trail-quiz, retry-incorrect-questions and confirm-submission. A dry
+// run, or answers held for confirmation, have a verification but no result.
+export const quizSubmissionOutputShape = {
+  submitted: z.boolean(),
+  locale: localeSchema,
+  message: z.string(),
+  notes: z.array(z.string()),
+  submitSelector: z.string().nullable(),
+  navigatedToNextUnit: z.boolean(),
+  verification: selectionVerificationSchema.nullable(),
+  result: quizResultSchema.nullable(),
+  // Set when the answers are waiting for confirm-submission or cancel-submission
+  pendingSubmissionId: z.string().nullable(),
+  // Waits for the quiz to render and, once submitted, to be graded
+  waits: z.array(waitReportSchema),
+};
+
+export type QuizSubmission = z.infer<z.ZodObject<typeof quizSubmissionOutputShape>>;
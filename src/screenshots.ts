@@ -0,0 +1,117 @@
+// Screenshots of the live page, so the model can see what the selectors
+// could not find.
+
+import type { ElementHandle, Page } from "puppeteer";
+import { ToolError } from "./errors.js";
+import { getSelectorProfile, resolveElement, type LogicalElement } from "./selectors.js";
+
+export type ScreenshotTarget = "viewport" | "fullPage" | "element";
+
+export interface ScreenshotOptions {
+  target: ScreenshotTarget;
+  // Element to capture when `target` is "element": a selector, or the name
+  // of a logical element from the selector profile such as "challenge"
+  selector?: string;
+  // Outline every element matching this selector before capturing
+  highlight?: string;
+  format: "png" | "jpeg";
+}
+
+export interface Screenshot {
+  data: string;
+  mimeType: string;
+  // How many elements the highlight selector matched
+  highlighted: number;
+  // Outer HTML of the captured element, for "element" captures
+  html: string | null;
+}
+
+const HIGHLIGHT_ATTRIBUTE = "data-trailhead-mcp-highlight";
+
+function isLogicalElement(name: string): name is LogicalElement {
+  return Object.hasOwn(getSelectorProfile().selectors, name);
+}
+
+async function findElement(page: Page, selector: string): Promise<ElementHandle<Element> | null> {
+  if (isLogicalElement(selector)) {
+    return await resolveElement(page, selector);
+  }
+  return await page.$(selector);
+}
+
+// Draws a numbered outline over each element. The overlays live in the
+// light DOM, so they show over elements inside shadow roots too.
+async function addHighlights(page: Page, selector: string): Promise<number> {
+  const matches = await page.$$(selector);
+  for (const [index, match] of matches.entries()) {
+    await match.evaluate(
+      (el, n, attribute) => {
+        const rect = el.getBoundingClientRect();
+        const overlay = document.createElement("div");
+        overlay.setAttribute(attribute, "");
+        overlay.textContent = String(n);
+        Object.assign(overlay.style, {
+          position: "absolute",
+          left: `${rect.left + window.scrollX}px`,
+          top: `${rect.top + window.scrollY}px`,
+          width: `${rect.width}px`,
+          height: `${rect.height}px`,
+          outline: "3px solid #ff00a0",
+          background: "rgba(255, 0, 160, 0.12)",
+          color: "#ff00a0",
+          font: "bold 12px sans-serif",
+          zIndex: "2147483647",
+          pointerEvents: "none",
+          boxSizing: "border-box",
+        });
+        document.body.append(overlay);
+      },
+      index + 1,
+      HIGHLIGHT_ATTRIBUTE,
+    );
+  }
+  return matches.length;
+}
+
+async function removeHighlights(page: Page): Promise<void> {
+  await page.evaluate((attribute) => {
+    for (const overlay of document.querySelectorAll(`[${attribute}]`)) {
+      overlay.remove();
+    }
+  }, HIGHLIGHT_ATTRIBUTE);
+}
+
+/**
+ * Captures the viewport, the full page or one element as a base64 image.
+ * Highlight overlays are always removed again, even when the capture fails.
+ */
+export async function captureScreenshot(page: Page, options: ScreenshotOptions): Promise<Screenshot> {
+  let element: ElementHandle<Element> | null = null;
+  if (options.target === "element") {
+    if (!options.selector) {
+      throw new ToolError("INVALID_ARGUMENTS", 'A selector is required when target is "element"');
+    }
+    element = await findElement(page, options.selector);
+    if (!element) {
+      throw new ToolError("ELEMENT_NOT_FOUND", `No element matches "${options.selector}"`);
+    }
+  }
+
+  const highlighted = options.highlight ? await addHighlights(page, options.highlight) : 0;
+  try {
+    const screenshotOptions = { encoding: "base64", type: options.format } as const;
+    const data = element
+      ? await element.screenshot(screenshotOptions)
+      : await page.screenshot({ ...screenshotOptions, fullPage: options.target === "fullPage" });
+    return {
+      data,
+      mimeType: `image/${options.format}`,
+      highlighted,
+      html: element ? await element.evaluate((el) => el.outerHTML) : null,
+    };
+  } finally {
+    if (options.highlight) {
+      await removeHighlights(page);
+    }
+  }
+}
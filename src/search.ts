@@ -0,0 +1,84 @@
+// Trailhead catalog search: the search page URL and the result cards
+// scraped from it.
+
+import { parseDurationMinutes, parsePoints, type OutlineLink } from "./outline.js";
+import { normalizeUrl, parseTrailheadUrl, type ContentKind } from "./urls.js";
+
+export const TRAILHEAD_SEARCH_URL = "https://trailhead.salesforce.com/search";
+
+export type SearchResultType = "module" | "trail" | "project" | "superbadge";
+export type SearchLevel = "Beginner" | "Intermediate" | "Advanced";
+
+const RESULT_TYPES: Record<ContentKind, SearchResultType> = {
+  modules: "module",
+  trails: "trail",
+  projects: "project",
+  superbadges: "superbadge",
+};
+
+export interface SearchFilters {
+  types?: SearchResultType[];
+  levels?: SearchLevel[];
+  // Leave out, or keep only, content the signed-in user has completed
+  completed?: boolean;
+}
+
+export interface SearchResult {
+  index: number;
+  type: SearchResultType;
+  title: string;
+  url: string;
+  durationMinutes: number | null;
+  level: SearchLevel | null;
+  points: number | null;
+  completed: boolean;
+}
+
+export function buildSearchUrl(query: string): string {
+  const url = new URL(TRAILHEAD_SEARCH_URL);
+  url.searchParams.set("keywords", query);
+  return url.toString();
+}
+
+/**
+ * Turns the links found on a search page into result entries, one per
+ * module, trail, project or superbadge overview, in page order. Unit links
+ * and links to anything else are skipped.
+ */
+export function parseSearchResults(links: OutlineLink[]): SearchResult[] {
+  const seen = new Set<string>();
+  const results: SearchResult[] = [];
+
+  for (const link of links) {
+    const location = parseTrailheadUrl(link.href);
+    if (!location || location.unitSlug !== null) continue;
+
+    const url = normalizeUrl(link.href);
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const level = link.context.match(/\b(Beginner|Intermediate|Advanced)\b/i)?.[1];
+    results.push({
+      index: results.length,
+      type: RESULT_TYPES[location.kind],
+      title: link.text.split("\n")[0].trim() || location.slug,
+      url,
+      durationMinutes: parseDurationMinutes(link.context),
+      level: level ? ((level[0].toUpperCase() + level.slice(1).toLowerCase()) as SearchLevel) : null,
+      points: parsePoints(link.context),
+      completed: link.completed,
+    });
+  }
+  return results;
+}
+
+export function filterSearchResults(results: SearchResult[], filters: SearchFilters): SearchResult[] {
+  return results
+    .filter(
+      (result) =>
+        (!filters.types?.length || filters.types.includes(result.type)) &&
+        (!filters.levels?.length || (result.level !== null && filters.levels.includes(result.level))) &&
+        (filters.completed === undefined || result.completed === filters.completed),
+    )
+    .map((result, index) => ({ ...result, index }));
+}
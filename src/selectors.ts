@@ -0,0 +1,280 @@
+// Selector profiles: every CSS/Puppeteer selector the server uses, grouped
+// by the logical page element it finds. Each element has an ordered list
+// of fallbacks; the first selector that matches wins.
+//
+// The built-in profile can be overridden, per element, by a JSON profile
+// file given with `--selectors <path>` or `TRAILHEAD_MCP_SELECTORS`, so a
+// Trailhead markup change can be patched without a release.
+
+import { readFile } from "node:fs/promises";
+import type { ElementHandle, Page } from "puppeteer";
+import { z } from "zod";
+import { readOption } from "./config.js";
+
+export const SELECTOR_PROFILE_VERSION = 1;
+
+export type LogicalElement =
+  | "unitContent"
+  | "challenge"
+  | "quizContainer"
+  | "question"
+  | "questionText"
+  | "option"
+  | "optionText"
+  | "optionInput"
+  | "submitButton"
+  | "quizComplete"
+  | "questionIncorrect"
+  | "questionFeedback"
+  | "challengeRequirements"
+  | "connectedOrg"
+  | "checkChallengeButton"
+  | "challengeChecking"
+  | "challengeError";
+
+// Elements that are looked up inside another element rather than the page
+export const SELECTOR_SCOPES: Partial<Record<LogicalElement, LogicalElement>> = {
+  questionText: "question",
+  option: "question",
+  optionText: "option",
+  optionInput: "option",
+  questionFeedback: "question",
+};
+
+export interface SelectorProfile {
+  version: number;
+  name: string;
+  selectors: Record<LogicalElement, string[]>;
+}
+
+export const DEFAULT_SELECTOR_PROFILE: SelectorProfile = {
+  version: SELECTOR_PROFILE_VERSION,
+  name: "trailhead-default",
+  selectors: {
+    unitContent: ["article > div.unit-content"],
+    challenge: ["article >>> div#challenge", "main div#challenge"],
+    quizContainer: ["div#challenge .th-enhanced-quiz", "div#challenge .th-quiz"],
+    question: [
+      "article >>> div#challenge .question",
+      "article >>> div#challenge fieldset.th-quiz__question",
+    ],
+    questionText: [".question-label", ".th-quiz__question-text"],
+    option: [".option", ".slds-radio_button", ".slds-checkbox"],
+    optionText: [".option-text", ".th-quiz__item-text", ".slds-form-element__label"],
+    optionInput: ["input"],
+    submitButton: [
+      ".th-challenge .th-button--success",
+      ".th-enhanced-quiz .submit-button",
+      ".th-quiz .submit-button",
+      "button.tds-button--primary",
+      ".challenge-quiz-submit",
+      'tds-button[type="submit"]',
+      "button.submit",
+    ],
+    quizComplete: [".challenge-completed", ".th-challenge-complete"],
+    questionIncorrect: [
+      "article >>> div#challenge .th-quiz__question--incorrect",
+      "article >>> div#challenge .slds-has-error",
+      "article >>> div#challenge .incorrect",
+    ],
+    questionFeedback: [
+      ".th-quiz__feedback",
+      ".question-feedback",
+      ".feedback",
+      ".slds-form-element__help",
+      "[role='alert']",
+    ],
+    challengeRequirements: [
+      "article >>> div#challenge .th-challenge__description",
+      "article >>> div#challenge .challenge-description",
+      "main div#challenge .slds-rich-text-editor__output",
+    ],
+    connectedOrg: [
+      "article >>> div#challenge .th-challenge__org-picker",
+      "article >>> div#challenge [class*='org-picker']",
+      "article >>> div#challenge select",
+    ],
+    checkChallengeButton: [
+      "article >>> div#challenge .th-challenge__check button",
+      "article >>> div#challenge button[title^='Check Challenge']",
+      "article >>> div#challenge ::-p-text(Check Challenge)",
+    ],
+    // Shown while Trailhead checks the org
+    challengeChecking: [
+      "article >>> div#challenge .slds-spinner",
+      "article >>> div#challenge [aria-busy='true']",
+    ],
+    challengeError: [
+      "article >>> div#challenge .th-challenge__error",
+      "article >>> div#challenge .slds-notify_alert",
+      "article >>> div#challenge .slds-theme_error",
+    ],
+  },
+};
+
+const selectorProfileFileSchema = z.object({
+  version: z.literal(SELECTOR_PROFILE_VERSION),
+  name: z.string().optional(),
+  selectors: z.record(z.string(), z.array(z.string()).nonempty()),
+});
+
+let activeProfile: SelectorProfile = DEFAULT_SELECTOR_PROFILE;
+
+export function getSelectorProfile(): SelectorProfile {
+  return activeProfile;
+}
+
+/**
+ * Loads the override profile named by `--selectors` or
+ * `TRAILHEAD_MCP_SELECTORS`, if any, on top of the built-in profile.
+ * Throws if the file is unreadable, has the wrong version or names an
+ * unknown logical element.
+ */
+export async function loadSelectorProfile(): Promise<SelectorProfile> {
+  const path = readOption("--selectors", "TRAILHEAD_MCP_SELECTORS");
+  if (!path) {
+    activeProfile = DEFAULT_SELECTOR_PROFILE;
+    return activeProfile;
+  }
+
+  const parsed = selectorProfileFileSchema.safeParse(JSON.parse(await readFile(path, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid selector profile ${path}: ${parsed.error.message}`);
+  }
+
+  const unknown = Object.keys(parsed.data.selectors).filter(
+    (element) => !Object.hasOwn(DEFAULT_SELECTOR_PROFILE.selectors, element),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Selector profile ${path} has unknown element(s): ${unknown.join(", ")}`);
+  }
+
+  activeProfile = {
+    version: parsed.data.version,
+    name: parsed.data.name ?? path,
+    selectors: { ...DEFAULT_SELECTOR_PROFILE.selectors, ...parsed.data.selectors },
+  };
+  console.error(`Loaded selector profile "${activeProfile.name}" from ${path}`);
+  return activeProfile;
+}
+
+export function selectorsFor(element: LogicalElement): string[] {
+  return activeProfile.selectors[element];
+}
+
+// Whether the element's fallbacks come from the profile file. An override
+// replaces the element's whole list, so this holds even when the file
+// repeats a built-in selector.
+export function isOverridden(element: LogicalElement): boolean {
+  return activeProfile.selectors[element] !== DEFAULT_SELECTOR_PROFILE.selectors[element];
+}
+
+// All of an element's fallbacks as one selector list, for waiting on any
+export function anySelector(element: LogicalElement): string {
+  return selectorsFor(element).join(", ");
+}
+
+type Queryable = Page | ElementHandle<Element>;
+
+// Returns the first match of the first fallback selector that matches. Page
+// adapters pass the fallbacks of their own layout as `selectors`.
+export async function queryFirst(
+  root: Queryable,
+  element: LogicalElement,
+  selectors: string[] = selectorsFor(element),
+): Promise<ElementHandle<Element> | null> {
+  for (const selector of selectors) {
+    const match = await root.$(selector).catch(() => null);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+// Returns every match of the first fallback selector that matches anything
+export async function queryAll(
+  root: Queryable,
+  element: LogicalElement,
+  selectors: string[] = selectorsFor(element),
+): Promise<ElementHandle<Element>[]> {
+  for (const selector of selectors) {
+    const matches = await root.$$(selector).catch(() => []);
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+  return [];
+}
+
+// Finds an element on the page, first resolving the element it is scoped to
+export async function resolveElement(
+  page: Page,
+  element: LogicalElement,
+): Promise<ElementHandle<Element> | null> {
+  const scope = SELECTOR_SCOPES[element];
+  if (!scope) {
+    return await queryFirst(page, element);
+  }
+  const parent = await resolveElement(page, scope);
+  return parent ? await queryFirst(parent, element) : null;
+}
+
+export interface SelectorHealth {
+  element: LogicalElement;
+  scope: LogicalElement | null;
+  resolved: boolean;
+  matchedSelector: string | null;
+  selectors: { selector: string; matches: number; error?: string }[];
+  note?: string;
+}
+
+/**
+ * Tries every fallback selector of every logical element against the page
+ * and reports how many elements each one matches. Scoped elements are
+ * checked inside the first match of their scope.
+ */
+export async function checkSelectorHealth(page: Page): Promise<SelectorHealth[]> {
+  const report: SelectorHealth[] = [];
+
+  for (const element of Object.keys(activeProfile.selectors) as LogicalElement[]) {
+    const scope = SELECTOR_SCOPES[element] ?? null;
+    const root = scope ? await resolveElement(page, scope) : page;
+
+    if (!root) {
+      report.push({
+        element,
+        scope,
+        resolved: false,
+        matchedSelector: null,
+        selectors: selectorsFor(element).map((selector) => ({ selector, matches: 0 })),
+        note: `Scope element "${scope}" was not found, so these selectors were not tried`,
+      });
+      continue;
+    }
+
+    const selectors: SelectorHealth["selectors"] = [];
+    for (const selector of selectorsFor(element)) {
+      try {
+        selectors.push({ selector, matches: (await root.$$(selector)).length });
+      } catch (error) {
+        selectors.push({
+          selector,
+          matches: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const matched = selectors.find((s) => s.matches > 0);
+    report.push({
+      element,
+      scope,
+      resolved: !!matched,
+      matchedSelector: matched?.selector ?? null,
+      selectors,
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,315 @@
+// Page snapshots and the offline replay server.
+//
+// `capture-page-snapshot` saves the current page's DOM, shadow roots
+// included, as static HTML. In replay mode (`--replay`) a local HTTP server
+// serves those snapshots at their original paths, and the server treats it
+// as Trailhead, so every tool can be exercised without network access or a
+// signed-in account. Quiz submission is simulated in the served page.
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { getDataDir, readFlag, readOption } from "./config.js";
+
+export interface SnapshotMetadata {
+  name: string;
+  url: string;
+  title: string;
+  capturedAt: string;
+  // Option IDs of the right answers; when missing, any submission passes
+  correctOptionIds?: string[];
+  // Points the simulated completion banner awards
+  points?: number;
+}
+
+export interface ReplayServer {
+  origin: string;
+  close: () => Promise<void>;
+}
+
+let replayOrigin: string | null = null;
+
+export function setReplayOrigin(origin: string | null): void {
+  replayOrigin = origin;
+}
+
+// In replay mode, points Trailhead URLs at the replay server instead
+export function toReplayUrl(url: string): string {
+  if (!replayOrigin) {
+    return url;
+  }
+  try {
+    const parsed = new URL(url);
+    if (/(^|\.)trailhead\.(salesforce\.)?com$/.test(parsed.hostname)) {
+      return `${replayOrigin}${parsed.pathname}${parsed.search}${parsed.hash}`;
+    }
+  } catch {
+    // Leave unparseable URLs for page.goto to reject
+  }
+  return url;
+}
+
+export function getSnapshotDir(): string {
+  return readOption("--snapshot-dir", "TRAILHEAD_MCP_SNAPSHOT_DIR") ?? join(getDataDir(), "snapshots");
+}
+
+// The snapshots replay mode serves, the captured ones unless `--replay-dir` names others
+export function getReplayDir(): string {
+  return readOption("--replay-dir", "TRAILHEAD_MCP_REPLAY_DIR") ?? getSnapshotDir();
+}
+
+export function isReplayEnabled(): boolean {
+  return readFlag("--replay", "TRAILHEAD_MCP_REPLAY");
+}
+
+/**
+ * Serializes the whole document to HTML. Open shadow roots are written as
+ * declarative `<template shadowrootmode>` elements so the browser rebuilds
+ * them on load; scripts and inline event handlers are dropped so the
+ * snapshot stays static, and live form state is written as attributes.
+ * Runs inside the page via `page.evaluate`, so it must stay self-contained.
+ */
+export function serializeDocument(): string {
+  const VOID_TAGS = new Set([
+    "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta",
+    "source", "track", "wbr",
+  ]);
+
+  const escapeText = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const escapeAttr = (text: string) => text.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+  const serializeChildren = (node: Node): string =>
+    Array.from(node.childNodes).map(serializeNode).join("");
+
+  function serializeNode(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? "";
+      return (node.parentNode as Element | null)?.localName === "style" ? text : escapeText(text);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return "";
+    }
+
+    const el = node as Element;
+    const tag = el.localName;
+    if (tag === "script" || tag === "noscript") {
+      return "";
+    }
+
+    const attributes = Array.from(el.attributes).filter(
+      (attr) => !attr.name.startsWith("on") && attr.name !== "checked" && attr.name !== "selected",
+    );
+    let attrs = attributes.map((attr) => ` ${attr.name}="${escapeAttr(attr.value)}"`).join("");
+    if (el instanceof HTMLInputElement && el.checked) {
+      attrs += " checked";
+    }
+    if (el instanceof HTMLOptionElement && el.selected) {
+      attrs += " selected";
+    }
+
+    if (VOID_TAGS.has(tag)) {
+      return `<${tag}${attrs}>`;
+    }
+
+    let inner = "";
+    if (el.shadowRoot) {
+      inner += `<template shadowrootmode="${el.shadowRoot.mode}">${serializeChildren(el.shadowRoot)}</template>`;
+    }
+    inner += el instanceof HTMLTemplateElement ? serializeChildren(el.content) : serializeChildren(el);
+    return `<${tag}${attrs}>${inner}</${tag}>`;
+  }
+
+  return `<!DOCTYPE html>\n${serializeNode(document.documentElement)}`;
+}
+
+function snapshotSlug(url: string): string {
+  const path = new URL(url).pathname.replace(/^\/+|\/+$/g, "");
+  return path.replace(/[^\w-]+/g, "_").slice(-80) || "index";
+}
+
+export async function saveSnapshot(
+  html: string,
+  metadata: Omit<SnapshotMetadata, "name" | "capturedAt"> & { name?: string },
+): Promise<{ htmlFile: string; metadataFile: string; metadata: SnapshotMetadata }> {
+  const dir = getSnapshotDir();
+  await mkdir(dir, { recursive: true });
+
+  const name = metadata.name ? metadata.name.replace(/[^\w-]+/g, "_") : snapshotSlug(metadata.url);
+  const full: SnapshotMetadata = { ...metadata, name, capturedAt: new Date().toISOString() };
+  const htmlFile = join(dir, `${name}.html`);
+  const metadataFile = join(dir, `${name}.json`);
+  await writeFile(htmlFile, html, "utf8");
+  await writeFile(metadataFile, `${JSON.stringify(full, null, 2)}\n`, "utf8");
+  return { htmlFile, metadataFile, metadata: full };
+}
+
+export async function listSnapshots(dir = getSnapshotDir()): Promise<SnapshotMetadata[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const snapshots: SnapshotMetadata[] = [];
+  for (const file of files.filter((f) => f.endsWith(".json"))) {
+    try {
+      snapshots.push(JSON.parse(await readFile(join(dir, file), "utf8")));
+    } catch (error) {
+      console.error(`Skipping unreadable snapshot metadata ${file}:`, error);
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Script injected into replayed pages. It grades a click on any submit
+ * button against the snapshot's answer key: wrong questions get the
+ * `th-quiz__question--incorrect` class and feedback text, and a fully
+ * correct quiz gets a `th-challenge-complete` banner.
+ */
+function replayScript(metadata: SnapshotMetadata, submitSelectors: string[]): string {
+  const config = {
+    correctOptionIds: metadata.correctOptionIds ?? null,
+    points: metadata.points ?? 100,
+    submitSelectors,
+  };
+
+  return `<script>
+(() => {
+  const config = ${JSON.stringify(config).replace(/</g, "\\u003c")};
+  const roots = () => {
+    const found = [document];
+    const walk = (root) => {
+      for (const el of root.querySelectorAll("*")) {
+        if (el.shadowRoot) {
+          found.push(el.shadowRoot);
+          walk(el.shadowRoot);
+        }
+      }
+    };
+    walk(document);
+    return found;
+  };
+  const queryAll = (selector) => roots().flatMap((root) => Array.from(root.querySelectorAll(selector)));
+  const isSubmit = (el) => config.submitSelectors.some((selector) => {
+    try { return el.matches(selector); } catch { return false; }
+  });
+
+  const grade = () => {
+    for (const el of queryAll("[data-replay-feedback]")) el.remove();
+    for (const el of queryAll(".th-quiz__question--incorrect")) el.classList.remove("th-quiz__question--incorrect");
+
+    const groups = new Map();
+    for (const input of queryAll("input[type=radio], input[type=checkbox]")) {
+      const key = input.name || input.id;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(input);
+    }
+
+    const wrong = [];
+    if (config.correctOptionIds) {
+      for (const group of groups.values()) {
+        if (!group.every((input) => input.checked === config.correctOptionIds.includes(input.id))) {
+          wrong.push(group[0]);
+        }
+      }
+    }
+
+    if (wrong.length === 0) {
+      const banner = document.createElement("div");
+      banner.className = "th-challenge-complete";
+      banner.dataset.replayFeedback = "";
+      banner.textContent = "Challenge complete! +" + config.points + " points";
+      document.body.append(banner);
+      return;
+    }
+
+    for (const input of wrong) {
+      const question = input.closest("fieldset, .question") || input.parentElement;
+      question.classList.add("th-quiz__question--incorrect");
+      const feedback = document.createElement("div");
+      feedback.className = "th-quiz__feedback";
+      feedback.dataset.replayFeedback = "";
+      feedback.textContent = "Incorrect. Review the unit content and try again.";
+      question.append(feedback);
+    }
+  };
+
+  document.addEventListener("click", (event) => {
+    if (event.composedPath().some((node) => node instanceof Element && isSubmit(node))) {
+      event.preventDefault();
+      grade();
+    }
+  }, true);
+})();
+</script>`;
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/+$/, "") || "/";
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Serves the snapshots in `dir` at the path of the URL they were captured
+ * from. `/` lists the available snapshots. Snapshots are re-read on every
+ * request so newly captured pages can be replayed straight away.
+ */
+export async function startReplayServer(
+  dir: string,
+  port: number,
+  submitSelectors: string[],
+): Promise<ReplayServer> {
+  const server = createServer(async (req, res) => {
+    try {
+      const requestPath = pathOf(`http://localhost${req.url ?? "/"}`);
+      const snapshots = await listSnapshots(dir);
+
+      if (requestPath === "/") {
+        const links = snapshots
+          .map((s) => `<li><a href="${pathOf(s.url)}">${s.title || s.name}</a> (${s.url})</li>`)
+          .join("\n");
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(`<!DOCTYPE html><title>Trailhead snapshots</title><ul>\n${links}\n</ul>`);
+        return;
+      }
+
+      const snapshot = snapshots.find((s) => pathOf(s.url) === requestPath);
+      if (!snapshot) {
+        res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end(`No snapshot for ${requestPath}`);
+        return;
+      }
+
+      const html = await readFile(join(dir, `${snapshot.name}.html`), "utf8");
+      const script = replayScript(snapshot, submitSelectors);
+      const body = html.includes("</body>") ? html.replace("</body>", `${script}</body>`) : html + script;
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(body);
+    } catch (error) {
+      console.error("Error serving snapshot:", error);
+      res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve());
+  });
+
+  const { port: actualPort } = server.address() as AddressInfo;
+  return {
+    origin: `http://127.0.0.1:${actualPort}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
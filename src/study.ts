@@ -0,0 +1,262 @@
+// Study packs: flashcards, notes and a JSON bundle per module, built from
+// the unit content in the knowledge index and the quiz questions seen so
+// far, with the answers Trailhead has confirmed as correct.
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getDataDir, readOption } from "./config.js";
+import { ToolError } from "./errors.js";
+import { readIndexedUnits } from "./knowledge.js";
+import type { QuizAnswers, QuizQuestion, QuizResult } from "./quiz.js";
+import { normalizeUrl, parseTrailheadUrl } from "./urls.js";
+
+export type StudyFormat = "csv" | "tsv" | "markdown" | "json";
+
+export interface StudyQuiz {
+  url: string;
+  title: string;
+  updatedAt: string;
+  questions: QuizQuestion[];
+  // Answers a graded submission marked correct, by question ID
+  correctAnswers: QuizAnswers;
+}
+
+export interface StudyUnit {
+  url: string;
+  title: string;
+  markdown: string | null;
+  quiz: StudyQuiz | null;
+}
+
+export interface StudyPack {
+  module: { title: string; url: string; slug: string };
+  exportedAt: string;
+  units: StudyUnit[];
+}
+
+export interface Flashcard {
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+export function getQuizStoreFile(): string {
+  return join(getDataDir(), "quizzes.json");
+}
+
+// Where study packs are written unless the tool is given a directory
+export function getStudyDir(): string {
+  return readOption("--study-dir", "TRAILHEAD_MCP_STUDY_DIR") ?? join(getDataDir(), "study");
+}
+
+async function readQuizStore(): Promise<Record<string, StudyQuiz>> {
+  try {
+    return JSON.parse(await readFile(getQuizStoreFile(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function updateQuizStore(url: string, update: (quiz: StudyQuiz | undefined) => StudyQuiz | undefined) {
+  const store = await readQuizStore();
+  const quiz = update(store[url]);
+  if (!quiz) return;
+  store[url] = { ...quiz, updatedAt: new Date().toISOString() };
+  await mkdir(getDataDir(), { recursive: true });
+  await writeFile(getQuizStoreFile(), `${JSON.stringify(store, null, 2)}\n`, "utf8");
+}
+
+// Remembers a unit's quiz questions, keeping answers already confirmed
+export async function recordQuizQuestions(url: string, title: string, questions: QuizQuestion[]): Promise<void> {
+  await updateQuizStore(url, (quiz) => ({
+    url,
+    title,
+    updatedAt: "",
+    questions,
+    correctAnswers: quiz?.correctAnswers ?? {},
+  }));
+}
+
+/**
+ * Records the submitted answers Trailhead graded as correct: every answer
+ * when the quiz passed, otherwise those of questions marked correct.
+ */
+export async function recordConfirmedAnswers(url: string, answers: QuizAnswers, result: QuizResult): Promise<void> {
+  const confirmed = Object.keys(answers).filter(
+    (id) =>
+      result.status === "passed" ||
+      result.questions.some((question) => question.questionId === id && question.correct === true),
+  );
+  if (confirmed.length === 0) return;
+
+  await updateQuizStore(url, (quiz) => {
+    if (!quiz) return undefined;
+    const correctAnswers = { ...quiz.correctAnswers };
+    for (const id of confirmed) {
+      correctAnswers[id] = answers[id];
+    }
+    return { ...quiz, correctAnswers };
+  });
+}
+
+// Overview URLs of every module, project or trail with stored content
+export async function listStudyModules(): Promise<string[]> {
+  const urls = [...(await readIndexedUnits()).map((unit) => unit.url), ...Object.keys(await readQuizStore())];
+  const modules = urls.map((url) => parseTrailheadUrl(url)?.overviewUrl).filter((url): url is string => !!url);
+  return [...new Set(modules.map(normalizeUrl))];
+}
+
+/**
+ * Gathers the stored content and quizzes of one module. Units follow
+ * `unitOrder` when given (e.g. from the module outline), and otherwise the
+ * order they were first read in.
+ */
+export async function buildStudyPack(
+  overviewUrl: string,
+  moduleTitle: string | null,
+  unitOrder: string[] = [],
+): Promise<StudyPack> {
+  const location = parseTrailheadUrl(overviewUrl);
+  if (!location) {
+    throw new ToolError("OUTLINE_NOT_FOUND", `${overviewUrl} is not a Trailhead module, project or trail URL`);
+  }
+  const prefix = `${normalizeUrl(location.overviewUrl)}/`;
+  const contents = (await readIndexedUnits()).filter((unit) => unit.url.startsWith(prefix));
+  const quizzes = Object.values(await readQuizStore()).filter((quiz) => quiz.url.startsWith(prefix));
+
+  const urls = [...new Set([...contents.map((unit) => unit.url), ...quizzes.map((quiz) => quiz.url)])];
+  const position = (url: string) => {
+    const index = unitOrder.indexOf(url);
+    return index === -1 ? unitOrder.length : index;
+  };
+  urls.sort((a, b) => position(a) - position(b));
+
+  return {
+    module: { title: moduleTitle ?? location.slug, url: location.overviewUrl, slug: location.slug },
+    exportedAt: new Date().toISOString(),
+    units: urls.map((url) => {
+      const content = contents.find((unit) => unit.url === url);
+      const quiz = quizzes.find((q) => q.url === url) ?? null;
+      return {
+        url,
+        title: content?.title ?? quiz?.title ?? url,
+        markdown: content?.markdown ?? null,
+        quiz,
+      };
+    }),
+  };
+}
+
+// One card per quiz question; unconfirmed questions only when asked for
+export function toFlashcards(pack: StudyPack, includeUnconfirmed: boolean): Flashcard[] {
+  const cards: Flashcard[] = [];
+  for (const unit of pack.units) {
+    const unitSlug = parseTrailheadUrl(unit.url)?.unitSlug ?? "";
+    for (const question of unit.quiz?.questions ?? []) {
+      const correct = unit.quiz?.correctAnswers[question.id];
+      if (!correct && !includeUnconfirmed) continue;
+
+      const options = question.options.map((option, i) => `${String.fromCharCode(65 + i)}. ${option.text}`);
+      const answers = question.options
+        .map((option, i) => ({ option, letter: String.fromCharCode(65 + i) }))
+        .filter(({ option }) => correct?.includes(option.id))
+        .map(({ option, letter }) => `${letter}. ${option.text}`);
+      cards.push({
+        front: [question.text, "", ...options].join("\n"),
+        back: answers.length > 0 ? answers.join("\n") : "(not yet confirmed)",
+        tags: [pack.module.slug, unitSlug].filter(Boolean),
+      });
+    }
+  }
+  return cards;
+}
+
+// Anki reads fields as HTML, so line breaks become <br>
+function ankiField(text: string, separator: "," | "\t"): string {
+  const html = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\r\n?|\n/g, "<br>");
+  if (separator === "\t") {
+    return html.replace(/\t/g, " ");
+  }
+  return /[",]/.test(html) ? `"${html.replace(/"/g, '""')}"` : html;
+}
+
+// Front, back and space-separated tags, with Anki's file headers
+export function flashcardsToDelimited(cards: Flashcard[], separator: "," | "\t"): string {
+  const header = [`#separator:${separator === "," ? "comma" : "tab"}`, "#html:true", "#tags column:3"];
+  const rows = cards.map((card) =>
+    [ankiField(card.front, separator), ankiField(card.back, separator), card.tags.join(" ")].join(separator),
+  );
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+// Unit headings are pushed down a level to sit under the unit's own heading
+function demoteHeadings(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*```/.test(line)) inFence = !inFence;
+      return !inFence && /^#{1,5}\s/.test(line) ? `#${line}` : line;
+    })
+    .join("\n");
+}
+
+export function studyPackToMarkdown(pack: StudyPack): string {
+  const lines = [`# ${pack.module.title}`, "", `Source: ${pack.module.url}`, ""];
+  for (const unit of pack.units) {
+    lines.push(`## ${unit.title}`, "", `Source: ${unit.url}`, "");
+    if (unit.markdown) {
+      lines.push(demoteHeadings(unit.markdown).trim(), "");
+    }
+    if (unit.quiz && unit.quiz.questions.length > 0) {
+      lines.push("### Quiz", "");
+      unit.quiz.questions.forEach((question, i) => {
+        const correct = unit.quiz?.correctAnswers[question.id];
+        lines.push(`${i + 1}. ${question.text}`);
+        for (const option of question.options) {
+          const mark = correct ? (correct.includes(option.id) ? "[x]" : "[ ]") : "-";
+          lines.push(`   ${mark} ${option.text}`);
+        }
+        if (!correct) {
+          lines.push("   _Answer not yet confirmed_");
+        }
+        lines.push("");
+      });
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Writes the pack's files to `<outputDir>/<module slug>/` and returns their
+ * paths.
+ */
+export async function writeStudyPack(
+  pack: StudyPack,
+  outputDir: string,
+  formats: StudyFormat[],
+  includeUnconfirmed: boolean,
+): Promise<string[]> {
+  const dir = join(outputDir, pack.module.slug);
+  await mkdir(dir, { recursive: true });
+
+  const cards = toFlashcards(pack, includeUnconfirmed);
+  const files: Record<StudyFormat, [string, () => string]> = {
+    csv: ["flashcards.csv", () => flashcardsToDelimited(cards, ",")],
+    tsv: ["flashcards.tsv", () => flashcardsToDelimited(cards, "\t")],
+    markdown: ["notes.md", () => studyPackToMarkdown(pack)],
+    json: ["bundle.json", () => `${JSON.stringify(pack, null, 2)}\n`],
+  };
+
+  const written: string[] = [];
+  for (const format of formats) {
+    const [name, render] = files[format];
+    const path = join(dir, name);
+    await writeFile(path, render(), "utf8");
+    written.push(path);
+  }
+  return written;
+}
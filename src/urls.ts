@@ -0,0 +1,83 @@
+// Trailhead URL recognition and parsing.
+
+import { localeFromUrl, type TrailheadLocale } from "./locale.js";
+
+const TRAILHEAD_HOSTS = ["trailhead.salesforce.com", "my.trailhead.com"];
+
+// Extra hosts treated as Trailhead, such as the local snapshot replay server
+const extraHosts: string[] = [];
+
+export function addTrailheadHost(host: string): void {
+  extraHosts.push(host);
+}
+
+export type ContentKind = "modules" | "projects" | "trails" | "superbadges";
+
+export interface TrailheadLocation {
+  kind: ContentKind;
+  // Slug of the module, project, trail or superbadge
+  slug: string;
+  // Slug of the unit or project step, when the URL points at one
+  unitSlug: string | null;
+  // URL of the module/project/trail overview page
+  overviewUrl: string;
+  // Language of the URL's locale prefix, "en" when it has none
+  locale: TrailheadLocale;
+}
+
+/**
+ * Whether a URL, or a bare host, is on a Trailhead host or one of its
+ * subdomains. Localized pages share the hosts and differ only by a path
+ * prefix such as `/ja/` or `/pt-BR/`.
+ */
+export function isTrailheadUrl(url: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url.includes("://") ? url : `https://${url}`).host;
+  } catch {
+    return false;
+  }
+  return [...TRAILHEAD_HOSTS, ...extraHosts].some((known) => host === known || host.endsWith(`.${known}`));
+}
+
+/**
+ * Parses a Trailhead learning content URL, e.g.
+ * `https://trailhead.salesforce.com/content/learn/modules/apex_database/apex_database_intro`.
+ * Locale prefixes such as `/ja/` are kept on the overview URL.
+ */
+export function parseTrailheadUrl(url: string): TrailheadLocation | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!isTrailheadUrl(parsed.href)) {
+    return null;
+  }
+
+  const match = parsed.pathname.match(
+    /^(.*?\/content\/learn\/(modules|projects|trails|superbadges)\/([^/]+))(?:\/([^/]+))?/,
+  );
+  if (!match) {
+    return null;
+  }
+
+  return {
+    kind: match[2] as ContentKind,
+    slug: match[3],
+    unitSlug: match[4] ?? null,
+    overviewUrl: `${parsed.origin}${match[1]}`,
+    locale: localeFromUrl(url) ?? "en",
+  };
+}
+
+// Strips query string and hash so URLs to the same page compare equal
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/$/, "")}`;
+  } catch {
+    return url.split(/[?#]/)[0].replace(/\/$/, "");
+  }
+}
@@ -0,0 +1,289 @@
+// Readiness waits. Instead of sleeping for a fixed time, each operation
+// waits for its own conditions: logical elements appearing, the network
+// going idle or the DOM settling. Every wait reports which condition was
+// satisfied and which timed out, so slow renders show up in responses.
+//
+// Timeouts, retries and backoff can be overridden per operation by a JSON
+// file given with `--wait-policies <path>` or `TRAILHEAD_MCP_WAIT_POLICIES`.
+
+import { readFile } from "node:fs/promises";
+import type { ElementHandle, Page } from "puppeteer";
+import { z } from "zod";
+import { readOption } from "./config.js";
+import { anySelector, queryFirst, type LogicalElement } from "./selectors.js";
+
+export type WaitOperation = "challenge" | "quiz" | "result" | "searchResults" | "navigation";
+
+export type WaitCondition =
+  // Any of the elements is present
+  | { kind: "elements"; elements: LogicalElement[]; timeoutMs?: number }
+  // No network requests for `idleMs`
+  | { kind: "networkIdle"; idleMs: number; timeoutMs?: number }
+  // No DOM mutations for `quietMs`
+  | { kind: "domQuiet"; quietMs: number; timeoutMs?: number };
+
+export interface WaitPolicy {
+  // How long one attempt at a condition may take, unless the condition sets its own
+  timeoutMs: number;
+  // Further attempts after a condition times out
+  retries: number;
+  // Pause before the first retry, doubled for each one after it
+  backoffMs: number;
+}
+
+export interface WaitReport {
+  operation: WaitOperation;
+  // "replaced": elements from before the operation were removed or changed
+  kind: WaitCondition["kind"] | "replaced";
+  condition: string;
+  status: "satisfied" | "timedOut" | "skipped";
+  // The element that appeared, for element conditions
+  element: LogicalElement | null;
+  attempts: number;
+  elapsedMs: number;
+}
+
+// Element conditions must be met before the ones after them are waited for;
+// network and DOM conditions only give a render time to settle.
+const OPERATION_CONDITIONS: Record<WaitOperation, WaitCondition[]> = {
+  challenge: [{ kind: "elements", elements: ["challenge"] }],
+  quiz: [
+    { kind: "elements", elements: ["quizContainer", "question"] },
+    { kind: "domQuiet", quietMs: 300, timeoutMs: 2000 },
+  ],
+  result: [
+    { kind: "elements", elements: ["quizComplete", "questionIncorrect"] },
+    { kind: "domQuiet", quietMs: 300, timeoutMs: 2000 },
+  ],
+  searchResults: [{ kind: "networkIdle", idleMs: 500 }],
+  // page.goto waits for the network itself; only its policy applies
+  navigation: [],
+};
+
+export const DEFAULT_WAIT_POLICIES: Record<WaitOperation, WaitPolicy> = {
+  challenge: { timeoutMs: 2000, retries: 1, backoffMs: 500 },
+  quiz: { timeoutMs: 5000, retries: 0, backoffMs: 0 },
+  result: { timeoutMs: 10000, retries: 1, backoffMs: 1000 },
+  searchResults: { timeoutMs: 10000, retries: 0, backoffMs: 0 },
+  navigation: { timeoutMs: 30000, retries: 1, backoffMs: 1000 },
+};
+
+const waitPoliciesFileSchema = z.record(
+  z.string(),
+  z
+    .object({
+      timeoutMs: z.number().int().positive(),
+      retries: z.number().int().min(0),
+      backoffMs: z.number().int().min(0),
+    })
+    .partial(),
+);
+
+let activePolicies: Record<WaitOperation, WaitPolicy> = DEFAULT_WAIT_POLICIES;
+
+export function getWaitPolicy(operation: WaitOperation): WaitPolicy {
+  return activePolicies[operation];
+}
+
+/**
+ * Loads the overrides named by `--wait-policies` or
+ * `TRAILHEAD_MCP_WAIT_POLICIES`, if any, on top of the defaults. Throws if
+ * the file is unreadable or names an unknown operation.
+ */
+export async function loadWaitPolicies(): Promise<Record<WaitOperation, WaitPolicy>> {
+  const path = readOption("--wait-policies", "TRAILHEAD_MCP_WAIT_POLICIES");
+  if (!path) {
+    activePolicies = DEFAULT_WAIT_POLICIES;
+    return activePolicies;
+  }
+
+  const parsed = waitPoliciesFileSchema.safeParse(JSON.parse(await readFile(path, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid wait policies ${path}: ${parsed.error.message}`);
+  }
+
+  const unknown = Object.keys(parsed.data).filter((operation) => !(operation in DEFAULT_WAIT_POLICIES));
+  if (unknown.length > 0) {
+    throw new Error(`Wait policies ${path} have unknown operation(s): ${unknown.join(", ")}`);
+  }
+
+  const policies = { ...DEFAULT_WAIT_POLICIES };
+  for (const [operation, overrides] of Object.entries(parsed.data)) {
+    policies[operation as WaitOperation] = { ...policies[operation as WaitOperation], ...overrides };
+  }
+  activePolicies = policies;
+  console.error(`Loaded wait policies from ${path}`);
+  return activePolicies;
+}
+
+function describeCondition(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case "elements":
+      return `elements present: ${condition.elements.join(" | ")}`;
+    case "networkIdle":
+      return `network idle for ${condition.idleMs}ms`;
+    case "domQuiet":
+      return `DOM quiet for ${condition.quietMs}ms`;
+  }
+}
+
+/**
+ * Resolves true once no mutation has been seen for `quietMs`, or false at
+ * the deadline. Observes the document and every open shadow root present
+ * when it starts. Runs inside the page via `page.evaluate`, so it must stay
+ * self-contained.
+ */
+export function waitForDomQuiet(quietMs: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, quietMs, true);
+    });
+    const finish = (quiet: boolean) => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(deadline);
+      resolve(quiet);
+    };
+
+    const options = { subtree: true, childList: true, attributes: true, characterData: true };
+    const observe = (root: Document | ShadowRoot) => {
+      observer.observe(root, options);
+      for (const el of Array.from(root.querySelectorAll("*"))) {
+        if (el.shadowRoot) observe(el.shadowRoot);
+      }
+    };
+    observe(document);
+
+    let quietTimer = setTimeout(finish, quietMs, true);
+    const deadline = setTimeout(finish, timeoutMs, false);
+  });
+}
+
+// One attempt at a condition: the element that appeared, true, or false on timeout
+async function attempt(page: Page, condition: WaitCondition, timeoutMs: number): Promise<LogicalElement | boolean> {
+  switch (condition.kind) {
+    case "elements": {
+      const selector = condition.elements.map(anySelector).join(", ");
+      const found = await page.waitForSelector(selector, { timeout: timeoutMs }).catch(() => null);
+      if (!found) return false;
+      for (const element of condition.elements) {
+        if (await queryFirst(page, element)) return element;
+      }
+      return true;
+    }
+    case "networkIdle":
+      return await page
+        .waitForNetworkIdle({ idleTime: condition.idleMs, timeout: timeoutMs })
+        .then(() => true)
+        .catch(() => false);
+    case "domQuiet":
+      return await page.evaluate(waitForDomQuiet, condition.quietMs, timeoutMs).catch(() => false);
+  }
+}
+
+/**
+ * Waits for each of the operation's conditions in turn, retrying one that
+ * times out as the policy allows. After an element condition times out the
+ * remaining conditions are skipped, since the page is not there yet.
+ */
+export async function waitUntilReady(page: Page, operation: WaitOperation): Promise<WaitReport[]> {
+  const policy = getWaitPolicy(operation);
+  const reports: WaitReport[] = [];
+  let blocked = false;
+
+  for (const condition of OPERATION_CONDITIONS[operation]) {
+    const report: WaitReport = {
+      operation,
+      kind: condition.kind,
+      condition: describeCondition(condition),
+      status: "skipped",
+      element: null,
+      attempts: 0,
+      elapsedMs: 0,
+    };
+    reports.push(report);
+    if (blocked) continue;
+
+    const started = Date.now();
+    for (let i = 0; i <= policy.retries; i++) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, policy.backoffMs * 2 ** (i - 1)));
+      }
+      report.attempts++;
+      const outcome = await attempt(page, condition, condition.timeoutMs ?? policy.timeoutMs);
+      if (outcome !== false) {
+        report.status = "satisfied";
+        report.element = typeof outcome === "string" ? outcome : null;
+        break;
+      }
+      report.status = "timedOut";
+    }
+    report.elapsedMs = Date.now() - started;
+
+    if (report.status === "timedOut" && condition.kind === "elements") {
+      blocked = true;
+      console.error(`Wait for ${operation} timed out: ${report.condition}`);
+    }
+  }
+  return reports;
+}
+
+// Whether every element condition of the waits was met, replaced elements included
+export function elementsReady(reports: WaitReport[]): boolean {
+  return reports.every(
+    (report) => (report.kind !== "elements" && report.kind !== "replaced") || report.status === "satisfied",
+  );
+}
+
+// The parts of an element that mark its state, to tell a changed element apart
+function elementState(el: Element): string | null {
+  return el.isConnected ? `${el.getAttribute("class") ?? ""}|${el.getAttribute("aria-invalid") ?? ""}` : null;
+}
+
+/**
+ * Waits for elements found before an action, such as the incorrect-answer
+ * markers of the previous attempt, to be removed or re-rendered, so they are
+ * not read as the outcome of the action. An element that is still attached
+ * with the same classes counts as unchanged.
+ */
+export async function waitUntilReplaced(
+  operation: WaitOperation,
+  element: LogicalElement,
+  handles: ElementHandle<Element>[],
+): Promise<WaitReport> {
+  const policy = getWaitPolicy(operation);
+  const report: WaitReport = {
+    operation,
+    kind: "replaced",
+    condition: `previous ${element} elements removed or changed`,
+    status: "satisfied",
+    element,
+    attempts: 0,
+    elapsedMs: 0,
+  };
+  const before = await Promise.all(handles.map((handle) => handle.evaluate(elementState).catch(() => null)));
+  const changed = async () => {
+    const after = await Promise.all(handles.map((handle) => handle.evaluate(elementState).catch(() => null)));
+    return after.every((state, i) => state === null || state !== before[i]);
+  };
+
+  const started = Date.now();
+  for (let i = 0; i <= policy.retries; i++) {
+    if (i > 0) {
+      await new Promise((resolve) => setTimeout(resolve, policy.backoffMs * 2 ** (i - 1)));
+    }
+    report.attempts++;
+    const deadline = Date.now() + policy.timeoutMs;
+    while (!(await changed()) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    report.status = (await changed()) ? "satisfied" : "timedOut";
+    if (report.status === "satisfied") break;
+  }
+  report.elapsedMs = Date.now() - started;
+  if (report.status === "timedOut") {
+    console.error(`Wait for ${operation} timed out: ${report.condition}`);
+  }
+  return report;
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PAGE_ADAPTERS } from "../src/adapters.js";
+import { loadSelectorProfile } from "../src/selectors.js";
+
+const enhancedQuiz = PAGE_ADAPTERS.find((adapter) => adapter.name === "enhanced-quiz")!;
+
+describe("enhanced-quiz selectors", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    delete process.env.TRAILHEAD_MCP_SELECTORS;
+    await loadSelectorProfile();
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  test("leave out the built-in legacy quiz selectors", () => {
+    expect(enhancedQuiz.selectorsFor("question")).toEqual(["article >>> div#challenge fieldset.th-quiz__question"]);
+  });
+
+  test("keep every selector a profile file lists, built-in legacy ones included", async () => {
+    dir = await mkdtemp(join(tmpdir(), "trailhead-selectors-"));
+    const file = join(dir, "profile.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        version: 1,
+        selectors: { question: ["article >>> div#challenge .question", "article >>> div#challenge .th-question"] },
+      }),
+    );
+    process.env.TRAILHEAD_MCP_SELECTORS = file;
+    await loadSelectorProfile();
+
+    expect(enhancedQuiz.selectorsFor("question")).toEqual([
+      "article >>> div#challenge .question",
+      "article >>> div#challenge .th-question",
+    ]);
+    expect(enhancedQuiz.selectorsFor("option")).toEqual([".slds-radio_button", ".slds-checkbox"]);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { audited, auditClick, readAuditLog } from "../src/audit.js";
+
+describe("audited", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "trailhead-audit-"));
+    process.env.TRAILHEAD_MCP_DATA_DIR = dataDir;
+  });
+
+  afterAll(async () => {
+    delete process.env.TRAILHEAD_MCP_DATA_DIR;
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("records clicks against the call that made them when calls interleave", async () => {
+    let resumeFirst!: () => void;
+    const firstWaiting = new Promise<void>((resolve) => {
+      resumeFirst = resolve;
+    });
+    const respond = (text: string) => ({ content: [{ type: "text", text }] });
+
+    const first = audited({ sessionId: "a", tool: "confirm", args: {} }, () => null, async () => {
+      auditClick("first before waiting");
+      await firstWaiting;
+      auditClick("first after waiting");
+      return respond("first");
+    });
+    const second = audited({ sessionId: "b", tool: "confirm", args: {} }, () => null, async () => {
+      auditClick("second");
+      resumeFirst();
+      await first;
+      auditClick("second after the first finished");
+      return respond("second");
+    });
+    await Promise.all([first, second]);
+
+    const entries = await readAuditLog();
+    expect(entries.find((entry) => entry.sessionId === "a")?.clicks).toEqual([
+      "first before waiting",
+      "first after waiting",
+    ]);
+    expect(entries.find((entry) => entry.sessionId === "b")?.clicks).toEqual([
+      "second",
+      "second after the first finished",
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  buildConfirmationRequest,
+  changedQuestionIds,
+  loadConfirmPolicy,
+  questionsToConfirm,
+  readConfirmedAnswers,
+} from "../src/confirm.js";
+import type { QuizQuestion } from "../src/quiz.js";
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: "q1",
+    text: "Which object stores leads?",
+    type: "single",
+    minSelections: 1,
+    maxSelections: 1,
+    options: [
+      { id: "q1-a", text: "Lead", index: 0 },
+      { id: "q1-b", text: "Contact", index: 1 },
+    ],
+  },
+  {
+    id: "q2",
+    text: "Which are standard objects?",
+    type: "multiple",
+    minSelections: 2,
+    maxSelections: 3,
+    options: [
+      { id: "q2-a", text: "Account", index: 0 },
+      { id: "q2-b", text: "Case", index: 1 },
+      { id: "q2-c", text: "Invoice__c", index: 2 },
+    ],
+  },
+];
+
+const PROPOSED = { q1: ["q1-a"], q2: ["q2-a", "q2-b"] };
+
+function setPolicy(policy: string, threshold?: string) {
+  process.env.TRAILHEAD_MCP_CONFIRM_SUBMIT = policy;
+  if (threshold === undefined) {
+    delete process.env.TRAILHEAD_MCP_CONFIRM_THRESHOLD;
+  } else {
+    process.env.TRAILHEAD_MCP_CONFIRM_THRESHOLD = threshold;
+  }
+  loadConfirmPolicy();
+}
+
+afterEach(() => {
+  setPolicy("never");
+  delete process.env.TRAILHEAD_MCP_CONFIRM_SUBMIT;
+});
+
+describe("loadConfirmPolicy", () => {
+  test("rejects unknown policies and thresholds outside 0 to 1", () => {
+    process.env.TRAILHEAD_MCP_CONFIRM_SUBMIT = "sometimes";
+    expect(() => loadConfirmPolicy()).toThrow('Unknown confirmation policy "sometimes"');
+    process.env.TRAILHEAD_MCP_CONFIRM_SUBMIT = "always";
+    process.env.TRAILHEAD_MCP_CONFIRM_THRESHOLD = "1.5";
+    expect(() => loadConfirmPolicy()).toThrow('Invalid confirmation threshold "1.5"');
+  });
+});
+
+describe("questionsToConfirm", () => {
+  test("asks about none under never and all under always", () => {
+    setPolicy("never");
+    expect(questionsToConfirm(QUESTIONS, {})).toEqual([]);
+    setPolicy("always");
+    expect(questionsToConfirm(QUESTIONS, { q1: 1, q2: 1 })).toEqual(["q1", "q2"]);
+  });
+
+  test("asks about answers with no confidence under on-low-confidence", () => {
+    setPolicy("on-low-confidence");
+    expect(questionsToConfirm(QUESTIONS, { q1: 0.95 })).toEqual(["q2"]);
+    expect(questionsToConfirm(QUESTIONS)).toEqual(["q1", "q2"]);
+  });
+
+  test("only asks about confidence below the threshold, not at it", () => {
+    setPolicy("on-low-confidence");
+    expect(questionsToConfirm(QUESTIONS, { q1: 0.8, q2: 0.79 })).toEqual(["q2"]);
+    setPolicy("on-low-confidence", "0.5");
+    expect(questionsToConfirm(QUESTIONS, { q1: 0.5, q2: 0.49 })).toEqual(["q2"]);
+  });
+});
+
+describe("buildConfirmationRequest", () => {
+  test("pre-fills a choice for single answers and option numbers for multiple ones", () => {
+    const { requestedSchema } = buildConfirmationRequest(QUESTIONS, PROPOSED, []);
+    expect(requestedSchema.required).toEqual(["q1", "q2"]);
+    expect(requestedSchema.properties.q1).toMatchObject({
+      enum: ["q1-a", "q1-b"],
+      enumNames: ["Lead", "Contact"],
+      default: "q1-a",
+    });
+    expect(requestedSchema.properties.q2).toMatchObject({ type: "string", default: "1, 2" });
+  });
+});
+
+describe("readConfirmedAnswers", () => {
+  test("reads chosen options and comma-separated option numbers", () => {
+    const { answers, problems } = readConfirmedAnswers(QUESTIONS, PROPOSED, { q1: "q1-b", q2: "1, 3,3" });
+    expect(answers).toEqual({ q1: ["q1-b"], q2: ["q2-a", "q2-c"] });
+    expect(problems).toEqual([]);
+  });
+
+  test("reports option numbers the question doesn't have", () => {
+    const { answers, problems } = readConfirmedAnswers(QUESTIONS, PROPOSED, { q2: "2, 4" });
+    expect(answers.q2).toEqual(["q2-b"]);
+    expect(problems).toEqual(["Question 2 has no option 4"]);
+  });
+
+  test("keeps the proposed answer for questions left out", () => {
+    expect(readConfirmedAnswers(QUESTIONS, PROPOSED, { q1: "q1-a" }).answers).toEqual(PROPOSED);
+    expect(readConfirmedAnswers(QUESTIONS, PROPOSED).answers).toEqual(PROPOSED);
+  });
+});
+
+describe("changedQuestionIds", () => {
+  test("ignores option order and reports added, removed and changed answers", () => {
+    expect(changedQuestionIds(PROPOSED, { q1: ["q1-a"], q2: ["q2-b", "q2-a"] })).toEqual([]);
+    expect(changedQuestionIds(PROPOSED, { q1: ["q1-b"], q2: ["q2-a", "q2-b"] })).toEqual(["q1"]);
+    expect(changedQuestionIds({ q1: ["q1-a"] }, { q1: ["q1-a"], q2: ["q2-a", "q2-b"] })).toEqual(["q2"]);
+  });
+});
@@ -0,0 +1,88 @@
+// A jsdom-backed stand-in for the parts of Puppeteer's Page and
+// ElementHandle the adapters and converters use, so fixtures can be run
+// through them without a browser. Functions passed to `evaluate` are
+// re-created inside the window from their source, as Puppeteer does, so
+// they see the page's globals and nothing from the test's scope.
+//
+// Fixtures have no shadow roots, so the `>>>` combinator is read as a plain
+// descendant combinator. Selectors jsdom can't parse, such as Puppeteer's
+// `::-p-text()`, match nothing.
+
+import { JSDOM } from "jsdom";
+import type { ElementHandle, Page } from "puppeteer";
+
+type DomWindow = JSDOM["window"];
+
+function toCss(selector: string): string {
+  return selector.replace(/\s*>>>\s*/g, " ");
+}
+
+function query(root: ParentNode, selector: string): Element[] {
+  try {
+    return Array.from(root.querySelectorAll(toCss(selector)));
+  } catch {
+    return [];
+  }
+}
+
+const HANDLE = Symbol("element");
+
+function inWindow(window: DomWindow, fn: unknown, args: unknown[]): Promise<unknown> {
+  const recreated = window.eval(`(${String(fn)})`) as (...args: unknown[]) => unknown;
+  const unwrapped = args.map((arg) => (arg && typeof arg === "object" && HANDLE in arg ? arg[HANDLE] : arg));
+  return Promise.resolve(recreated(...unwrapped));
+}
+
+function handleFor(window: DomWindow, el: Element): ElementHandle<Element> {
+  const handle = {
+    [HANDLE]: el,
+    $: async (selector: string) => wrap(window, query(el, selector)[0]),
+    $$: async (selector: string) => query(el, selector).map((match) => handleFor(window, match)),
+    evaluate: (fn: unknown, ...args: unknown[]) => inWindow(window, fn, [el, ...args]),
+    click: async () => (el as HTMLElement).click(),
+    dispose: async () => undefined,
+  };
+  return handle as unknown as ElementHandle<Element>;
+}
+
+function wrap(window: DomWindow, el: Element | undefined): ElementHandle<Element> | null {
+  return el ? handleFor(window, el) : null;
+}
+
+/**
+ * Loads `html` as the page at `url`, running its inline scripts, such as
+ * the grading script the replay server injects.
+ */
+export function loadPage(html: string, url: string): { page: Page; window: DomWindow } {
+  const { window } = new JSDOM(html, { url, runScripts: "dangerously" });
+  const document = window.document;
+
+  const page = {
+    url: () => url,
+    isClosed: () => false,
+    $: async (selector: string) => wrap(window, query(document, selector)[0]),
+    $$: async (selector: string) => query(document, selector).map((el) => handleFor(window, el)),
+    evaluate: (fn: unknown, ...args: unknown[]) => inWindow(window, fn, args),
+    click: async (selector: string) => {
+      const el = query(document, selector)[0];
+      if (!el) {
+        throw new Error(`No element found for selector: ${selector}`);
+      }
+      (el as HTMLElement).click();
+    },
+    waitForSelector: async (selector: string, options: { timeout?: number } = {}) => {
+      const deadline = Date.now() + (options.timeout ?? 30_000);
+      for (;;) {
+        const el = query(document, selector)[0];
+        if (el) {
+          return handleFor(window, el);
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Waiting for selector \`${selector}\` failed`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    },
+  };
+  return { page: page as unknown as Page, window };
+}
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { request } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpServer, type HttpServerHandle } from "../src/http.js";
+
+const createServer = (): McpServer => {
+  throw new Error("No session should be created");
+};
+
+// Status code of a GET with the given headers, sent with node:http so the Host header is kept
+function get(url: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("startHttpServer", () => {
+  let server: HttpServerHandle;
+  let port: string;
+
+  beforeAll(async () => {
+    server = await startHttpServer({ host: "127.0.0.1", port: 0, authToken: "secret" }, createServer);
+    port = new URL(server.url).port;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("refuses to listen beyond loopback without a token", async () => {
+    await expect(startHttpServer({ host: "0.0.0.0", port: 0 }, createServer)).rejects.toThrow(/--auth-token/);
+  });
+
+  test("rejects requests for other hosts", async () => {
+    const status = await get(`${server.url}/nothing`, {
+      Host: `attacker.example:${port}`,
+      Authorization: "Bearer secret",
+    });
+    expect(status).toBe(403);
+  });
+
+  test("rejects requests without the token", async () => {
+    expect(await get(`${server.url}/nothing`, { Host: `localhost:${port}` })).toBe(401);
+  });
+
+  test("accepts loopback hosts with the token", async () => {
+    const headers = { Authorization: "Bearer secret" };
+    expect(await get(`${server.url}/nothing`, { ...headers, Host: `localhost:${port}` })).toBe(404);
+    expect(await get(`${server.url}/nothing`, { ...headers, Host: `127.0.0.1:${port}` })).toBe(404);
+  });
+});
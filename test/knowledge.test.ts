@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { chunkMarkdown, indexUnit, searchKnowledge } from "../src/knowledge.js";
+
+const MODULES = "https://trailhead.salesforce.com/content/learn/modules";
+
+describe("chunkMarkdown", () => {
+  test("keeps the heading path of each section", () => {
+    const chunks = chunkMarkdown("# Triggers\n\nIntro text.\n\n## Bulk triggers\n\nProcess records in bulk.");
+    expect(chunks).toEqual([
+      { headings: ["Triggers"], text: "Intro text." },
+      { headings: ["Triggers", "Bulk triggers"], text: "Process records in bulk." },
+    ]);
+  });
+});
+
+describe("searchKnowledge", () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "trailhead-knowledge-"));
+    process.env.TRAILHEAD_MCP_DATA_DIR = dataDir;
+    await indexUnit({ url: `${MODULES}/apex/triggers`, title: "Triggers", markdown: "# Triggers\n\nApex triggers run before or after DML." });
+    await indexUnit({ url: `${MODULES}/apex_database/dml`, title: "DML", markdown: "# DML\n\nApex DML inserts records." });
+  });
+
+  afterAll(async () => {
+    delete process.env.TRAILHEAD_MCP_DATA_DIR;
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("ranks the sections that mention the query terms", async () => {
+    const { unitsSearched, passages } = await searchKnowledge("apex triggers", { limit: 5 });
+    expect(unitsSearched).toBe(2);
+    expect(passages[0].url).toBe(`${MODULES}/apex/triggers`);
+  });
+
+  test("limits the search to a module without matching modules that share its prefix", async () => {
+    for (const urlPrefix of [`${MODULES}/apex`, `${MODULES}/apex/`]) {
+      const { unitsSearched, passages } = await searchKnowledge("apex dml", { limit: 5, urlPrefix });
+      expect(unitsSearched).toBe(1);
+      expect(passages.map((passage) => passage.url)).toEqual([`${MODULES}/apex/triggers`]);
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { formatOutline, unitContentToMarkdown, type UnitMarkdown } from "../src/markdown.js";
+import { loadPage } from "./dom-page.js";
+
+describe("unitContentToMarkdown", () => {
+  let unit: UnitMarkdown;
+
+  beforeAll(async () => {
+    const html = await readFile(join(import.meta.dir, "fixtures", "unit-content.html"), "utf8");
+    const { page } = loadPage(html, "https://trailhead.salesforce.com/content/learn/modules/apex_triggers/apex_triggers_bulk");
+    const contentEl = await page.$("article > div.unit-content");
+    unit = await contentEl!.evaluate(unitContentToMarkdown);
+  });
+
+  test("keeps headings and inline formatting, and outlines the headings", () => {
+    expect(unit.markdown).toStartWith(
+      "## Bulk Triggers\n\nTriggers should handle **up to 200** records at a time.\n\n",
+    );
+    expect(unit.outline).toEqual([{ level: 2, text: "Bulk Triggers", anchor: "bulk-triggers" }]);
+    expect(formatOutline(unit.outline)).toBe("Outline:\n- Bulk Triggers (#bulk-triggers)");
+  });
+
+  test("indents nested lists under their item", () => {
+    expect(unit.markdown).toContain("- Before triggers\n  - Update fields\n  - Validate records\n- After triggers");
+  });
+
+  test("fences code blocks with their language", () => {
+    expect(unit.markdown).toContain(
+      "```apex\ntrigger HelloWorld on Account (before insert) {\n    System.debug('Hello World!');\n}\n```",
+    );
+  });
+
+  test("renders tables with a header row", () => {
+    expect(unit.markdown).toContain(
+      [
+        "| Event | Runs |",
+        "| --- | --- |",
+        "| before insert | Before the record is saved |",
+        "| after update | After the record is saved |",
+      ].join("\n"),
+    );
+  });
+
+  test("quotes callouts under their label without repeating it", () => {
+    expect(unit.markdown).toEndWith("> **Tip:** Keep SOQL queries out of loops.");
+  });
+});
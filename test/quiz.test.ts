@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { validateAnswers, verifySelection, type QuizQuestion } from "../src/quiz.js";
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: "q1",
+    text: "Which object stores leads?",
+    type: "single",
+    minSelections: 1,
+    maxSelections: 1,
+    options: [
+      { id: "q1-a", text: "Lead", index: 0 },
+      { id: "q1-b", text: "Contact", index: 1 },
+    ],
+  },
+  {
+    id: "q2",
+    text: "Which are standard objects? Choose two.",
+    type: "multiple",
+    minSelections: 2,
+    maxSelections: 2,
+    options: [
+      { id: "q2-a", text: "Account", index: 0 },
+      { id: "q2-b", text: "Case", index: 1 },
+      { id: "q2-c", text: "Invoice__c", index: 2 },
+    ],
+  },
+];
+
+describe("validateAnswers", () => {
+  test("accepts answers with the right number of known options", () => {
+    expect(validateAnswers(QUESTIONS, { q1: ["q1-b"], q2: ["q2-a", "q2-b"] })).toEqual([]);
+  });
+
+  test("reports unknown questions and options", () => {
+    expect(validateAnswers(QUESTIONS, { q3: ["q3-a"], q1: ["q1-z"] })).toEqual([
+      'Unknown question ID "q3"',
+      'Question "q1" has no option(s) "q1-z"',
+    ]);
+  });
+
+  test("reports too few or too many options, counting repeats once", () => {
+    expect(validateAnswers(QUESTIONS, { q1: ["q1-a", "q1-b"], q2: ["q2-a", "q2-a"] })).toEqual([
+      'Question "q1" is a single question and needs exactly 1 option(s), got 2',
+      'Question "q2" is a multiple question and needs exactly 2 option(s), got 1',
+    ]);
+  });
+});
+
+describe("verifySelection", () => {
+  test("is verified when the page shows exactly the requested options", () => {
+    const requested = { q1: ["q1-a"], q2: ["q2-a", "q2-b"] };
+    const result = verifySelection(QUESTIONS, requested, { q1: ["q1-a"], q2: ["q2-b", "q2-a"] }, []);
+    expect(result.verified).toBe(true);
+  });
+
+  test("reports unanswered and mismatched questions and unknown options", () => {
+    const result = verifySelection(QUESTIONS, { q2: ["q2-a", "q2-b"] }, { q2: ["q2-a", "q2-c"] }, ["q2-z"]);
+    expect(result).toMatchObject({
+      verified: false,
+      unansweredQuestionIds: ["q1"],
+      mismatchedQuestionIds: ["q2"],
+      unknownOptionIds: ["q2-z"],
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { detectAdapter } from "../src/adapters.js";
+import { selectorsFor } from "../src/selectors.js";
+import {
+  getReplayDir,
+  isReplayEnabled,
+  saveSnapshot,
+  setReplayOrigin,
+  startReplayServer,
+  toReplayUrl,
+  type ReplayServer,
+} from "../src/snapshots.js";
+import { loadPage } from "./dom-page.js";
+
+const ENV_VARS = ["TRAILHEAD_MCP_REPLAY", "TRAILHEAD_MCP_REPLAY_DIR", "TRAILHEAD_MCP_SNAPSHOT_DIR"];
+
+afterEach(() => {
+  for (const name of ENV_VARS) {
+    delete process.env[name];
+  }
+});
+
+describe("replay settings", () => {
+  test("replay is off unless the flag is set to a true value", () => {
+    expect(isReplayEnabled()).toBe(false);
+    process.env.TRAILHEAD_MCP_REPLAY = "0";
+    expect(isReplayEnabled()).toBe(false);
+    process.env.TRAILHEAD_MCP_REPLAY = "1";
+    expect(isReplayEnabled()).toBe(true);
+  });
+
+  test("the replay directory defaults to the snapshot directory", () => {
+    process.env.TRAILHEAD_MCP_SNAPSHOT_DIR = "/tmp/captured";
+    expect(getReplayDir()).toBe("/tmp/captured");
+    process.env.TRAILHEAD_MCP_REPLAY_DIR = "/tmp/fixtures";
+    expect(getReplayDir()).toBe("/tmp/fixtures");
+  });
+});
+
+describe("replay server", () => {
+  let dir: string;
+  let server: ReplayServer;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "trailhead-replay-"));
+    process.env.TRAILHEAD_MCP_SNAPSHOT_DIR = dir;
+    await saveSnapshot("<!DOCTYPE html><html><body><form><button class=\"submit\">Check</button></form></body></html>", {
+      url: "https://trailhead.salesforce.com/content/learn/modules/apex/unit-one",
+      title: "Unit One",
+      correctOptionIds: ["q1-a"],
+    });
+    server = await startReplayServer(dir, 0, ["button.submit"]);
+  });
+
+  afterAll(async () => {
+    setReplayOrigin(null);
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("lists the snapshots at the root", async () => {
+    const response = await fetch(`${server.origin}/`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<a href="/content/learn/modules/apex/unit-one">Unit One</a>');
+  });
+
+  test("serves a snapshot at its original path with the grading script", async () => {
+    const response = await fetch(`${server.origin}/content/learn/modules/apex/unit-one/`);
+    expect(response.status).toBe(200);
+    const html = await response.text();
+    expect(html).toContain('<button class="submit">Check</button>');
+    expect(html).toContain('"correctOptionIds":["q1-a"]');
+    expect(html).toContain('"submitSelectors":["button.submit"]');
+    expect(html.indexOf("<script>")).toBeLessThan(html.indexOf("</body>"));
+  });
+
+  test("answers 404 for pages that were not captured", async () => {
+    const response = await fetch(`${server.origin}/content/learn/modules/apex/unit-two`);
+    expect(response.status).toBe(404);
+  });
+
+  test("points Trailhead URLs at the replay server", () => {
+    setReplayOrigin(server.origin);
+    expect(toReplayUrl("https://trailhead.salesforce.com/content/learn/modules/apex/unit-one#quiz")).toBe(
+      `${server.origin}/content/learn/modules/apex/unit-one#quiz`,
+    );
+    expect(toReplayUrl("https://example.com/page")).toBe("https://example.com/page");
+  });
+});
+
+describe("replaying a captured quiz", () => {
+  const fixtures = join(import.meta.dir, "fixtures", "snapshots");
+  const url = "https://trailhead.salesforce.com/content/learn/modules/apex_triggers/apex_triggers_intro";
+  let server: ReplayServer;
+
+  beforeAll(async () => {
+    server = await startReplayServer(fixtures, 0, selectorsFor("submitButton"));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  // The fixture as the replay server serves it, grading script included
+  async function loadFixture() {
+    const response = await fetch(`${server.origin}${new URL(url).pathname}`);
+    return loadPage(await response.text(), url);
+  }
+
+  test("reads the quiz and grades a wrong, then a right, submission", async () => {
+    const { page } = await loadFixture();
+    const { adapter } = await detectAdapter(page);
+    expect(adapter.name).toBe("enhanced-quiz");
+
+    const { questions } = await adapter.extractQuiz(page);
+    expect(questions.map(({ id, type, options }) => ({ id, type, options: options.map((o) => o.text) }))).toEqual([
+      { id: "q1", type: "single", options: ["A before trigger", "An after trigger"] },
+      { id: "q2", type: "multiple", options: ["insert", "update", "query"] },
+    ]);
+
+    const wrong = { q1: ["q1-before"], q2: ["q2-insert", "q2-query"] };
+    expect((await adapter.selectAnswers(page, questions, wrong)).missingOptionIds).toEqual([]);
+    expect(await adapter.readSelectedAnswers(page, questions)).toEqual(wrong);
+    expect(await adapter.submit(page)).toBe(".th-enhanced-quiz .submit-button");
+    const failed = await adapter.readResult(page, questions, 1);
+    expect(failed).toMatchObject({ status: "failed", incorrectQuestionIds: ["q2"] });
+    expect(failed.questions[1].feedback).toBe("Incorrect. Review the unit content and try again.");
+
+    await adapter.selectAnswers(page, questions, { q2: ["q2-insert", "q2-update"] });
+    await adapter.submit(page);
+    const passed = await adapter.readResult(page, questions, 2);
+    expect(passed).toMatchObject({ status: "passed", pointsEarned: 100, incorrectQuestionIds: [] });
+  });
+});